@@ -62,6 +62,8 @@ export default defineConfig([
       'eslint.config.js',
       '**/vite.config.ts',
       'devvit.config.ts',
+      // Tests are left out of the tsconfig projects (see src/*/tsconfig.json), so no typed rules
+      '**/*.test.ts',
     ],
     languageOptions: {
       parserOptions: {
@@ -1,53 +1,51 @@
 #!/usr/bin/env node
 /**
- * Prints the next subreddit in the daily rotation (tomorrow) and optional upcoming days.
- * Run: node scripts/next-subreddit.mjs [days]
- * Example: node scripts/next-subreddit.mjs 7
- *
- * Logic mirrors src/shared/config/subreddits.ts — keep in sync when changing the rotation.
+ * Prints the next subreddit in the daily rotation (tomorrow) and optional upcoming days,
+ * marking dates a mod pinned on the calendar.
+ * The rotation lives in Redis (mods edit it from the subreddit menu), so this asks the running
+ * server via GET /api/next-subreddit. Run while npm run dev is active.
+ * Requires ADMIN_SECRET in .env (npm run next-subreddit loads it via dotenv-cli).
+ * Usage: npm run next-subreddit [-- days [port]]
+ * Example: npm run next-subreddit -- 7
  */
-import { readFileSync } from 'fs';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const subredditsPath = join(__dirname, '../src/shared/config/subreddits.ts');
-
-function getSubredditForDate(date, list) {
-  const start = new Date(date.getFullYear(), 0, 0);
-  const diff = date.getTime() - start.getTime();
-  const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
-  const index = dayOfYear % list.length;
-  return list[index];
-}
-
-// Parse APPROVED_SUBREDDITS from subreddits.ts so we never get out of sync
-const src = readFileSync(subredditsPath, 'utf8');
-const match = src.match(/APPROVED_SUBREDDITS\s*=\s*\[([\s\S]*?)\]\s*as\s*const/);
-if (!match) {
-  console.error('Could not parse APPROVED_SUBREDDITS from', subredditsPath);
+const daysAhead = Math.min(Math.max(1, parseInt(process.argv[2], 10) || 7), 31);
+const portArg = process.argv[3];
+const secret = process.env.ADMIN_SECRET;
+if (!secret) {
+  console.error('ADMIN_SECRET must be set in .env. Run: npm run next-subreddit');
   process.exit(1);
 }
-const list = match[1]
-  .split(',')
-  .map((s) => s.replace(/^\s*['"]|['"]\s*$/g, '').trim())
-  .filter(Boolean);
+const ports = portArg ? [parseInt(portArg, 10)] : [8080, 3000, 1234, 8081].filter(Boolean);
+const url = (p) => {
+  const params = new URLSearchParams({ key: secret, days: String(daysAhead) });
+  return `http://localhost:${p}/api/next-subreddit?${params.toString()}`;
+};
 
-const daysAhead = Math.min(Math.max(1, parseInt(process.argv[2], 10) || 7), 31);
-const today = new Date();
-
-console.log('Today:', today.toISOString().split('T')[0], '→', getSubredditForDate(today, list));
-console.log('');
-console.log(
-  'Next subreddit (tomorrow):',
-  getSubredditForDate(new Date(today.getTime() + 86400000), list)
-);
-console.log('');
-console.log('Upcoming days:');
-for (let i = 1; i <= daysAhead; i++) {
-  const d = new Date(today);
-  d.setDate(d.getDate() + i);
-  const dateStr = d.toISOString().split('T')[0];
-  const sub = getSubredditForDate(d, list);
-  console.log(' ', dateStr, '→ r/' + sub);
+let lastErr;
+for (const port of ports) {
+  try {
+    const res = await fetch(url(port), { method: 'GET' });
+    const data = await res.json();
+    if (!res.ok) {
+      console.error(data.message ?? data);
+      process.exit(1);
+    }
+    const tag = (pinned, note) => (pinned ? ` (pinned${note ? `: ${note}` : ''})` : '');
+    console.log('Today:', data.todayDate, '→', data.today + tag(data.todayPinned));
+    console.log('');
+    console.log('Next subreddit (tomorrow):', data.nextSubreddit + tag(data.nextPinned));
+    console.log('');
+    console.log('Upcoming days:');
+    for (const { date, subreddit, pinned, note } of data.upcoming) {
+      console.log(' ', date, '→ r/' + subreddit + tag(pinned, note));
+    }
+    process.exit(0);
+  } catch (err) {
+    lastErr = err;
+  }
 }
+console.error(
+  'Failed to get the rotation. Ensure ADMIN_SECRET is set in .env and the server is running.'
+);
+console.error(lastErr?.message ?? '');
+process.exit(1);
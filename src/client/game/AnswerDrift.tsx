@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { context } from '@devvit/web/client';
+import type { AnswerDriftResponse, QuizComment } from '../../shared/types/api';
+import type { QuestionType } from '../../shared/config/questionTypes';
+
+type AnswerDriftProps = {
+  questionId: string;
+  type: QuestionType;
+  /** The revealed options, top at quiz time first */
+  comments: QuizComment[];
+};
+
+const snippet = (body: string) => (body.length > 80 ? `${body.substring(0, 80)}...` : body);
+
+/**
+ * After answering, check the thread's live scores and, if another option has taken the lead
+ * since the quiz was made, show both so the thread doesn't look like it contradicts the game.
+ * Shows nothing while loading, when nothing changed, or if the check fails.
+ */
+export const AnswerDrift = ({ questionId, type, comments }: AnswerDriftProps) => {
+  const [drift, setDrift] = useState<AnswerDriftResponse | null>(null);
+
+  useEffect(() => {
+    const loadDrift = async () => {
+      try {
+        const params = new URLSearchParams({ questionId, type });
+        if (context?.postId) params.set('postId', context.postId);
+        const response = await fetch(`/api/answer-drift?${params.toString()}`);
+        if (response.ok) setDrift(await response.json());
+      } catch (error) {
+        console.error('Failed to check answer drift:', error);
+      }
+    };
+    void loadDrift();
+  }, [questionId, type]);
+
+  if (!drift?.changed) return null;
+
+  const byId = new Map(comments.map((c) => [c.id, c]));
+  const topAtQuiz = byId.get(drift.topAtQuizId);
+  const topNow = byId.get(drift.topNowId);
+  const upsNow = new Map(drift.comments.map((c) => [c.id, c.upsNow]));
+  if (!topAtQuiz || !topNow) return null;
+
+  return (
+    <div className="mt-3 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-left text-sm text-gray-700">
+      <p className="font-medium text-yellow-800 mb-2">
+        Heads up: the votes have shifted since this quiz was made.
+      </p>
+      <p className="mb-1">
+        <span className="font-medium">Top at quiz time:</span>{' '}
+        {`"${snippet(topAtQuiz.body)}" (${topAtQuiz.ups} upvotes then, ${upsNow.get(topAtQuiz.id) ?? 'gone'} now)`}
+      </p>
+      <p>
+        <span className="font-medium">Top now:</span>{' '}
+        {`"${snippet(topNow.body)}" (${upsNow.get(topNow.id) ?? 0} upvotes)`}
+      </p>
+    </div>
+  );
+};
@@ -1,28 +1,39 @@
 import { useState, useEffect } from 'react';
 import { context } from '@devvit/web/client';
 import type {
+  AnswerResponse,
   QuizResponse,
-  QuizQuestion,
+  PublicQuizQuestion,
   ErrorResponse,
   DailySubredditResponse,
+  MeResponse,
+  PlayerProfile,
+  RecordedAttempt,
 } from '../../shared/types/api';
 import { APPROVED_SUBREDDITS } from '../../shared/config/subreddits';
+import { DEFAULT_QUIZ_CONFIG, type QuizConfig } from '../../shared/config/quiz';
+import { formatScore } from '../../shared/config/questionTypes';
 import { QuizQuestionComponent } from './QuizQuestion';
-import { ScoreSummary } from './ScoreSummary';
+import { ScoreSummary, type QuestionResult } from './ScoreSummary';
+import { PlayerStats } from './PlayerStats';
 
 const FALLBACK_SUBREDDIT = APPROVED_SUBREDDITS[0] ?? 'Unexpected';
 
 export const App = () => {
   const [dailySubreddit, setDailySubreddit] = useState<string | null>(null);
-  const [quizData, setQuizData] = useState<QuizQuestion[]>([]);
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG);
+  const [quizData, setQuizData] = useState<PublicQuizQuestion[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<ErrorResponse | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [quizStarted, setQuizStarted] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
-  const [hasCompletedOnce, setHasCompletedOnce] = useState(false);
+  // The user's scored attempt on this post (from the server); when set, this play is practice
+  const [recordedAttempt, setRecordedAttempt] = useState<RecordedAttempt | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [score, setScore] = useState(0);
+  const [questionResults, setQuestionResults] = useState<QuestionResult[]>([]);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
 
   // Fetch daily subreddit on mount (pass postId if available to get historical quiz)
   useEffect(() => {
@@ -38,6 +49,7 @@ export const App = () => {
         if (response.ok) {
           const data: DailySubredditResponse = await response.json();
           setDailySubreddit(data.subreddit);
+          if (data.config) setQuizConfig(data.config);
         } else {
           setDailySubreddit(FALLBACK_SUBREDDIT);
         }
@@ -49,6 +61,23 @@ export const App = () => {
     void fetchDailySubreddit();
   }, []);
 
+  // Fetch the player's lifetime stats for the welcome screen (re-fetched after each game)
+  useEffect(() => {
+    if (quizStarted) return;
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch('/api/me');
+        if (response.ok) {
+          const data: MeResponse = await response.json();
+          setProfile(data.profile);
+        }
+      } catch (err) {
+        console.error('Failed to fetch profile:', err);
+      }
+    };
+    void fetchProfile();
+  }, [quizStarted]);
+
   const loadQuiz = async (subreddit: string, retryAttempt = 0): Promise<void> => {
     setLoading(true);
     setError(null);
@@ -92,6 +121,8 @@ export const App = () => {
       }
 
       setQuizData(data.quiz);
+      setRecordedAttempt(data.recordedAttempt ?? null);
+      if (data.config) setQuizConfig(data.config);
       if (data.subreddit) setDailySubreddit(data.subreddit);
       setQuizStarted(true);
       setRetryCount(0);
@@ -127,13 +158,13 @@ export const App = () => {
   };
 
   const handleRestart = () => {
-    setHasCompletedOnce(true); // Lock score: after Play Again, they can't share again
     setQuizStarted(false);
     setQuizCompleted(false);
     setQuizData([]);
     setError(null);
     setCurrentQuestionIndex(0);
     setScore(0);
+    setQuestionResults([]);
   };
 
   // Quiz hasn't started - show welcome screen with daily subreddit
@@ -193,6 +224,8 @@ export const App = () => {
           </div>
 
           <div className="space-y-4">
+            {profile && <PlayerStats profile={profile} />}
+
             {error && (
               <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
                 <div className="flex items-start">
@@ -272,7 +305,8 @@ export const App = () => {
 
             {!loading && (
               <p className="text-xs text-gray-500 text-center">
-                Quiz will include 5 questions from recent popular posts in r/{dailySubreddit}
+                Quiz will include {quizConfig.questionsPerQuiz} questions from recent popular posts
+                in r/{dailySubreddit}
               </p>
             )}
           </div>
@@ -336,7 +370,10 @@ export const App = () => {
 
   const currentQuestion = quizData[currentQuestionIndex];
 
-  if (!currentQuestion || currentQuestion.comments.length === 0) {
+  if (
+    !currentQuestion ||
+    (currentQuestion.comments.length === 0 && currentQuestion.type !== 'which-subreddit')
+  ) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-orange-50 to-red-50 flex items-center justify-center p-4">
         <div className="max-w-4xl w-full bg-white rounded-lg shadow-lg p-6">
@@ -354,10 +391,19 @@ export const App = () => {
     );
   }
 
-  const handleAnswer = (isCorrect: boolean) => {
-    if (isCorrect) {
-      setScore(score + 1);
-    }
+  const handleAnswer = (result: AnswerResponse) => {
+    setScore(score + result.points);
+    setQuestionResults([
+      ...questionResults,
+      {
+        // Guess-title questions only learn their title from the answer
+        title:
+          currentQuestion.type === 'guess-title' ? (result.title ?? '') : currentQuestion.title,
+        points: result.points,
+        elapsedMs: result.elapsedMs,
+        timedOut: result.timedOut,
+      },
+    ]);
   };
   const handleNext = () => {
     // Scroll back to top when moving to the next question or finishing the quiz
@@ -381,8 +427,9 @@ export const App = () => {
       <ScoreSummary
         score={score}
         totalQuestions={quizData.length}
+        questionResults={questionResults}
         subreddit={dailySubreddit}
-        allowShare={!hasCompletedOnce} // false after they've clicked Play Again
+        recordedAttempt={recordedAttempt}
         onRestart={handleRestart}
       />
     );
@@ -396,9 +443,17 @@ export const App = () => {
           <div className="flex justify-between items-center mb-2">
             <span className="text-sm text-gray-600">
               Question {currentQuestionIndex + 1} of {quizData.length}
+              {recordedAttempt && (
+                <span
+                  className="ml-2 px-2 py-0.5 rounded-full bg-gray-200 text-xs font-semibold text-gray-700"
+                  title="You already completed this quiz. Replays don't count toward your score or stats."
+                >
+                  Practice
+                </span>
+              )}
             </span>
             <span className="text-sm font-semibold text-gray-800">
-              Score: {score}/{quizData.length}
+              Score: {formatScore(score)}/{quizData.length}
             </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
@@ -413,6 +468,7 @@ export const App = () => {
         <QuizQuestionComponent
           key={`question-${currentQuestionIndex}-${currentQuestion.postId}`}
           question={currentQuestion}
+          secondsPerQuestion={quizConfig.secondsPerQuestion}
           onAnswer={handleAnswer}
           onNext={handleNext}
           isLastQuestion={isLastQuestion}
@@ -0,0 +1,68 @@
+import type { LeaderboardEntry, LeaderboardResponse } from '../../shared/types/api';
+import { formatScore } from '../../shared/config/questionTypes';
+
+type LeaderboardPanelProps = {
+  leaderboard: LeaderboardResponse | null;
+  loading: boolean;
+};
+
+/** Format a completion time as m:ss (or "—" when unknown) */
+const formatDuration = (timeMs: number | null): string => {
+  if (timeMs == null) return '—';
+  const totalSeconds = Math.round(timeMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const LeaderboardRow = ({ entry, highlight }: { entry: LeaderboardEntry; highlight: boolean }) => (
+  <li
+    className={`flex items-center justify-between px-3 py-1.5 text-sm rounded ${
+      highlight ? 'bg-orange-100 font-semibold text-orange-800' : 'text-gray-700'
+    }`}
+  >
+    <span className="w-8 text-left text-gray-500">#{entry.rank}</span>
+    <span className="flex-1 text-left truncate">u/{entry.username}</span>
+    <span className="w-12 text-right">
+      {formatScore(entry.score)}/{entry.totalQuestions}
+    </span>
+    <span className="w-14 text-right text-xs text-gray-500">{formatDuration(entry.timeMs)}</span>
+  </li>
+);
+
+export const LeaderboardPanel = ({ leaderboard, loading }: LeaderboardPanelProps) => {
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading leaderboard...</p>;
+  }
+  if (!leaderboard || leaderboard.entries.length === 0) {
+    return <p className="text-sm text-gray-500">No scores on the leaderboard yet.</p>;
+  }
+
+  const { entries, me, totalPlayers } = leaderboard;
+  const meInTop = me != null && entries.some((e) => e.rank === me.rank);
+
+  return (
+    <div className="border-2 border-orange-100 rounded-lg p-3 text-left">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold text-gray-800">Today's Leaderboard</h3>
+        <span className="text-xs text-gray-500">
+          {totalPlayers} {totalPlayers === 1 ? 'player' : 'players'}
+        </span>
+      </div>
+      <ol className="space-y-0.5">
+        {entries.map((entry) => (
+          <LeaderboardRow key={entry.rank} entry={entry} highlight={entry.rank === me?.rank} />
+        ))}
+      </ol>
+      {me && !meInTop && (
+        <>
+          <div className="text-center text-xs text-gray-400 my-1">…</div>
+          <ol>
+            <LeaderboardRow entry={me} highlight />
+          </ol>
+        </>
+      )}
+      <p className="mt-2 text-xs text-gray-500">First attempts only. Ties go to the faster time.</p>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import type { PlayerProfile } from '../../shared/types/api';
+import { formatScore } from '../../shared/config/questionTypes';
+
+type PlayerStatsProps = {
+  profile: PlayerProfile;
+  /** Show the best subreddit and best score rows (score screen) */
+  detailed?: boolean;
+};
+
+const StatTile = ({ label, value }: { label: string; value: string | number }) => (
+  <div className="flex-1 px-2 py-1.5 bg-white rounded-lg border border-orange-100">
+    <div className="text-lg font-bold text-gray-800">{value}</div>
+    <div className="text-[0.7rem] uppercase tracking-wide text-gray-500">{label}</div>
+  </div>
+);
+
+export const PlayerStats = ({ profile, detailed = false }: PlayerStatsProps) => {
+  if (profile.gamesPlayed === 0) return null;
+
+  const accuracy =
+    profile.totalQuestions > 0 ? Math.round((profile.correct / profile.totalQuestions) * 100) : 0;
+  const bestSubreddit = profile.subreddits
+    .filter((s) => s.totalQuestions > 0)
+    .sort((a, b) => b.correct / b.totalQuestions - a.correct / a.totalQuestions)[0];
+
+  return (
+    <div className="p-3 bg-orange-50 rounded-lg text-center">
+      <div className="flex gap-2">
+        <StatTile label="Streak" value={`🔥 ${profile.currentStreak}`} />
+        <StatTile label="Best streak" value={profile.longestStreak} />
+        <StatTile label="Played" value={profile.gamesPlayed} />
+        <StatTile label="Accuracy" value={`${accuracy}%`} />
+      </div>
+      {detailed && (
+        <div className="mt-2 space-y-0.5 text-xs text-gray-600">
+          {profile.bestScore && (
+            <p>
+              Best score: {formatScore(profile.bestScore.score)}/{profile.bestScore.totalQuestions}{' '}
+              on r/
+              {profile.bestScore.subreddit}
+            </p>
+          )}
+          {bestSubreddit && (
+            <p>
+              Best subreddit: r/{bestSubreddit.subreddit} (
+              {Math.round((bestSubreddit.correct / bestSubreddit.totalQuestions) * 100)}%)
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,21 @@
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { context, navigateTo } from '@devvit/web/client';
-import type { QuizQuestion } from '../../shared/types/api';
+import type {
+  AnswerRequest,
+  AnswerResponse,
+  ErrorResponse,
+  PublicQuizQuestion,
+  QuestionServedResponse,
+} from '../../shared/types/api';
+import {
+  DIFFICULTY_LABELS,
+  getDifficultyLevel,
+  type DifficultyLevel,
+} from '../../shared/config/difficulty';
+import { formatScore, UPVOTE_BUCKETS, type QuestionType } from '../../shared/config/questionTypes';
+import { formatSeconds } from '../../shared/config/timing';
+import { AnswerDrift } from './AnswerDrift';
+import { RankComments } from './RankComments';
 
 const WIN_MESSAGES = [
   'Nice! But that was an easy one. Even I knew that one.',
@@ -19,48 +34,200 @@ const LOSE_MESSAGES = [
   'Incorrect. Your thinking is stuck in a cylinder.',
 ];
 
+const TIMEOUT_MESSAGES = [
+  "Time's up! The hivemind waits for no one.",
+  'Too slow! The thread got locked while you were thinking.',
+];
+
+/** Seconds left at which the countdown turns red */
+const COUNTDOWN_WARNING_SECONDS = 5;
+
+const CLOSE_MESSAGES = [
+  'So close! Half a point for landing one bucket away.',
+  'Almost! The hivemind was just one bucket off from you.',
+];
+
+const PARTIAL_RANKING_MESSAGES = [
+  'Partly right! Some of your order matched the hivemind.',
+  'Not bad! The hivemind agreed with part of your ranking.',
+];
+
+const QUESTION_PROMPTS: Record<QuestionType, string> = {
+  'top-comment': 'Can you guess the top comment?',
+  'upvote-guess': 'How many upvotes did the top comment get?',
+  'rank-comments': 'Rank the comments from most to fewest upvotes.',
+  'which-subreddit': 'Which subreddit is this post from?',
+  'guess-title': 'Which title goes with this post and its top comment?',
+};
+
+const DIFFICULTY_BADGE_CLASSES: Record<DifficultyLevel, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800',
+};
+
 type QuizQuestionProps = {
-  question: QuizQuestion;
-  onAnswer: (isCorrect: boolean) => void;
+  question: PublicQuizQuestion;
+  /** Timed mode: seconds to answer before the question times out (0 = untimed) */
+  secondsPerQuestion: number;
+  /** The scored answer: 0 or 1 points, or partial credit for guesses, rankings and speed */
+  onAnswer: (result: AnswerResponse) => void;
   onNext: () => void;
   isLastQuestion: boolean;
 };
 
 export const QuizQuestionComponent = ({
   question,
+  secondsPerQuestion,
   onAnswer,
   onNext,
   isLastQuestion,
 }: QuizQuestionProps) => {
   const [selectedCommentId, setSelectedCommentId] = useState<string | null>(null);
+  const [selectedBucket, setSelectedBucket] = useState<number | null>(null);
+  const [selectedSubreddit, setSelectedSubreddit] = useState<string | null>(null);
+  const [selectedTitle, setSelectedTitle] = useState<string | null>(null);
   const [showAnswer, setShowAnswer] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
+  const [answer, setAnswer] = useState<AnswerResponse | null>(null);
+  const [answerLoading, setAnswerLoading] = useState(false);
+  const [answerError, setAnswerError] = useState<string | null>(null);
   const [resultMessage, setResultMessage] = useState<string | null>(null);
   const [urlCopied, setUrlCopied] = useState(false);
   const [videoUrlCopied, setVideoUrlCopied] = useState(false);
   const [reportSubmitted, setReportSubmitted] = useState(false);
   const [reportLoading, setReportLoading] = useState(false);
+  // Timed mode: when this question's countdown ends, once the server has started its clock
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [msLeft, setMsLeft] = useState<number | null>(null);
+  const [timeUp, setTimeUp] = useState(false);
 
-  // Shuffle comments once when component mounts (useMemo - must be before early return)
-  const shuffledComments = useMemo(() => {
-    if (!question.comments || question.comments.length === 0) {
-      return [];
-    }
-    const shuffled = [...question.comments];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      const temp = shuffled[i]!;
-      shuffled[i] = shuffled[j]!;
-      shuffled[j] = temp;
+  // Comments arrive already shuffled by the server, without ups/author until answered
+  const topCommentId = answer?.topCommentId;
+  const topComment = question.comments.find((c) => c.id === topCommentId);
+  const revealedById = new Map((answer?.comments ?? []).map((c) => [c.id, c]));
+  const isUpvoteGuess = question.type === 'upvote-guess';
+  const isRanking = question.type === 'rank-comments';
+  const isWhichSubreddit = question.type === 'which-subreddit';
+  const isGuessTitle = question.type === 'guess-title';
+  // Guess-title questions hide the title until it's been guessed
+  const title = question.type === 'guess-title' ? answer?.title : question.title;
+
+  const submitPick = async (
+    pick:
+      | { commentId: string }
+      | { guess: number }
+      | { order: string[] }
+      | { subreddit: string }
+      | { titleGuess: string }
+      | { timedOut: true }
+  ) => {
+    if (showAnswer || answerLoading) return;
+
+    if ('guess' in pick) setSelectedBucket(pick.guess);
+    if ('commentId' in pick) setSelectedCommentId(pick.commentId);
+    if ('subreddit' in pick) setSelectedSubreddit(pick.subreddit);
+    if ('titleGuess' in pick) setSelectedTitle(pick.titleGuess);
+    setAnswerLoading(true);
+    setAnswerError(null);
+
+    try {
+      const request: AnswerRequest = {
+        ...(context?.postId && { postId: context.postId }),
+        questionId: question.postId,
+        ...pick,
+        ...('timedOut' in pick && { type: question.type ?? 'top-comment' }),
+      };
+      const response = await fetch('/api/answer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const errorData: ErrorResponse | null = await response.json().catch(() => null);
+        throw new Error(errorData?.message ?? `Failed to submit answer: ${response.status}`);
+      }
+      const result: AnswerResponse = await response.json();
+
+      // The server keeps the first pick if this question was already answered
+      setSelectedCommentId(result.selectedCommentId ?? null);
+      setSelectedBucket(result.guessBucket ?? null);
+      setSelectedSubreddit(result.subredditGuess ?? null);
+      setSelectedTitle(result.titleGuess ?? null);
+      setAnswer(result);
+      setShowAnswer(true);
+      setIsCorrect(result.correct);
+      onAnswer(result);
+
+      const messages = result.timedOut
+        ? TIMEOUT_MESSAGES
+        : result.correct
+          ? WIN_MESSAGES
+          : result.points > 0
+            ? isRanking
+              ? PARTIAL_RANKING_MESSAGES
+              : CLOSE_MESSAGES
+            : LOSE_MESSAGES;
+      setResultMessage(messages[Math.floor(Math.random() * messages.length)] ?? 'Not quite.');
+    } catch (error) {
+      console.error('Failed to submit answer:', error);
+      setSelectedCommentId(null);
+      setSelectedBucket(null);
+      setAnswerError(error instanceof Error ? error.message : 'Failed to submit answer.');
+    } finally {
+      setAnswerLoading(false);
     }
-    return shuffled;
-    // eslint-disable-next-line react-hooks/exhaustive-deps -- intentionally use postId for stable shuffle per question
-  }, [question.postId]);
+  };
 
-  const topComment = question.comments[0];
-  const topCommentId = topComment?.id;
+  // Start the question's clock on the server, which times the answer. Timed quizzes count down
+  // from what the server says is left, so reloading doesn't restart the countdown.
+  useEffect(() => {
+    const startQuestion = async () => {
+      let remainingMs = secondsPerQuestion > 0 ? secondsPerQuestion * 1000 : null;
+      try {
+        const response = await fetch('/api/question-served', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...(context?.postId && { postId: context.postId }),
+            questionId: question.postId,
+            type: question.type ?? 'top-comment',
+          }),
+        });
+        if (response.ok) {
+          const data: QuestionServedResponse = await response.json();
+          remainingMs = data.remainingMs;
+        }
+      } catch (error) {
+        console.error('Failed to start question:', error);
+      }
+      if (remainingMs != null) setDeadline(Date.now() + remainingMs);
+    };
+    void startQuestion();
+  }, [question.postId, question.type, secondsPerQuestion]);
+
+  useEffect(() => {
+    if (deadline == null || showAnswer || timeUp) return;
+    const tick = () => {
+      const left = Math.max(0, deadline - Date.now());
+      setMsLeft(left);
+      if (left === 0) setTimeUp(true);
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [deadline, showAnswer, timeUp]);
+
+  // The countdown outlives renders, so it submits the time-out through the latest submitPick
+  const submitPickRef = useRef(submitPick);
+  useEffect(() => {
+    submitPickRef.current = submitPick;
+  });
+  useEffect(() => {
+    if (timeUp) void submitPickRef.current({ timedOut: true });
+  }, [timeUp]);
 
-  if (!topComment) {
+  if (question.comments.length === 0 && !isWhichSubreddit) {
     return (
       <div className="text-center p-4">
         <p className="text-red-600">No comments available for this question.</p>
@@ -68,22 +235,6 @@ export const QuizQuestionComponent = ({
     );
   }
 
-  const handleAnswerSelect = (commentId: string) => {
-    if (showAnswer) return;
-
-    setSelectedCommentId(commentId);
-    setShowAnswer(true);
-
-    const correct = commentId === topCommentId;
-    setIsCorrect(correct);
-    onAnswer(correct);
-
-    const msg = correct
-      ? (WIN_MESSAGES[Math.floor(Math.random() * WIN_MESSAGES.length)] ?? 'Correct!')
-      : (LOSE_MESSAGES[Math.floor(Math.random() * LOSE_MESSAGES.length)] ?? 'Not quite.');
-    setResultMessage(msg);
-  };
-
   const handleReportInappropriate = async () => {
     if (reportSubmitted || reportLoading) return;
     setReportLoading(true);
@@ -129,11 +280,42 @@ export const QuizQuestionComponent = ({
     }
   };
 
+  const difficultyLevel =
+    question.difficulty != null ? getDifficultyLevel(question.difficulty) : null;
+
   return (
     <div>
       {/* Question */}
       <div className="mb-6">
-        <h2 className="text-xl font-bold text-gray-800 mb-3">{question.title}</h2>
+        {msLeft != null && !showAnswer && (
+          <div className="mb-3">
+            <div className="flex justify-between text-xs font-semibold text-gray-600 mb-1">
+              <span>Time left</span>
+              <span
+                className={
+                  msLeft <= COUNTDOWN_WARNING_SECONDS * 1000 ? 'text-red-600' : 'text-gray-800'
+                }
+              >
+                {Math.ceil(msLeft / 1000)}s
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5">
+              <div
+                className="bg-gradient-to-r from-orange-500 to-red-500 h-1.5 rounded-full transition-all duration-200"
+                style={{ width: `${(msLeft / (secondsPerQuestion * 1000)) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {difficultyLevel && (
+          <span
+            className={`inline-block mb-2 px-2 py-0.5 rounded-full text-xs font-semibold ${DIFFICULTY_BADGE_CLASSES[difficultyLevel]}`}
+            title="Based on how close the upvotes were and how other players did"
+          >
+            {DIFFICULTY_LABELS[difficultyLevel]}
+          </span>
+        )}
+        {title && <h2 className="text-xl font-bold text-gray-800 mb-3">{title}</h2>}
 
         {question.selftext && (
           <p className="text-sm text-gray-700 mb-4 whitespace-pre-wrap leading-relaxed">
@@ -223,72 +405,269 @@ export const QuizQuestionComponent = ({
           </div>
         )}
 
-        <p className="text-sm text-gray-500 mb-6">Can you guess the top comment?</p>
+        <p className="text-sm text-gray-500 mb-6">
+          {QUESTION_PROMPTS[question.type ?? 'top-comment']}
+        </p>
       </div>
 
-      {/* Answer options */}
-      <div className="space-y-3 mb-6">
-        {shuffledComments.map((comment) => {
-          const isSelected = selectedCommentId === comment.id;
-          const isTopComment = comment.id === topCommentId;
-
-          let buttonClass = 'w-full p-4 text-left border-2 rounded-lg transition-all duration-200 ';
-
-          if (showAnswer) {
-            if (isTopComment) {
-              buttonClass += 'bg-green-100 border-green-500 text-green-800';
-            } else if (isSelected) {
-              buttonClass += 'bg-red-100 border-red-500 text-red-800';
+      {/* Which subreddit: subreddit names as options */}
+      {question.type === 'which-subreddit' && (
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          {question.subredditOptions.map((sub) => {
+            const isSelected = selectedSubreddit === sub;
+            const isAnswer = answer?.subreddit === sub;
+
+            let buttonClass = 'w-full p-3 border-2 rounded-lg transition-all duration-200 ';
+            if (showAnswer) {
+              if (isAnswer) {
+                buttonClass += 'bg-green-100 border-green-500 text-green-800';
+              } else if (isSelected) {
+                buttonClass += 'bg-red-100 border-red-500 text-red-800';
+              } else {
+                buttonClass += 'bg-gray-50 border-gray-300 text-gray-600';
+              }
             } else {
-              buttonClass += 'bg-gray-50 border-gray-300 text-gray-600';
+              buttonClass += isSelected
+                ? 'bg-blue-100 border-blue-500 text-blue-800'
+                : 'bg-white border-gray-300 hover:border-orange-400 hover:bg-orange-50 text-gray-800 cursor-pointer';
             }
-          } else {
-            buttonClass += isSelected
-              ? 'bg-blue-100 border-blue-500 text-blue-800'
-              : 'bg-white border-gray-300 hover:border-orange-400 hover:bg-orange-50 text-gray-800 cursor-pointer';
-          }
 
-          return (
-            <button
-              key={comment.id}
-              onClick={() => handleAnswerSelect(comment.id)}
-              disabled={showAnswer}
-              className={buttonClass}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  {comment.gifUrl && (
-                    <div className="mb-2">
-                      <img
-                        src={comment.gifUrl}
-                        alt="Comment media"
-                        className="max-h-32 max-w-full rounded object-contain"
-                      />
-                    </div>
-                  )}
-                  <p className="text-sm font-medium mb-1">
-                    {comment.body.length > 200
-                      ? `${comment.body.substring(0, 200)}...`
-                      : comment.body}
+            return (
+              <button
+                key={sub}
+                onClick={() => submitPick({ subreddit: sub })}
+                disabled={showAnswer || answerLoading}
+                className={buttonClass}
+              >
+                <span className="text-sm font-medium break-all">
+                  r/{sub}
+                  {showAnswer && isAnswer && ' ✓'}
+                  {showAnswer && isSelected && !isAnswer && ' ✗'}
+                </span>
+                {showAnswer && answer && answer.totalAnswers > 0 && (
+                  <span className="block text-xs text-gray-500 mt-1">
+                    {Math.round(((answer.pickCounts[sub] ?? 0) / answer.totalAnswers) * 100)}%
+                    picked this
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Upvote guess and guess-title: the top comment, then upvote buckets or titles */}
+      {(isUpvoteGuess || isGuessTitle) && (
+        <div className="mb-6">
+          {question.comments.map((comment) => {
+            const revealed = revealedById.get(comment.id);
+            return (
+              <div key={comment.id} className="p-4 mb-4 border-2 border-gray-300 rounded-lg">
+                {comment.gifUrl && (
+                  <div className="mb-2">
+                    <img
+                      src={comment.gifUrl}
+                      alt="Comment media"
+                      className="max-h-32 max-w-full rounded object-contain"
+                    />
+                  </div>
+                )}
+                <p className="text-sm font-medium text-gray-800 mb-1">
+                  {comment.body.length > 200
+                    ? `${comment.body.substring(0, 200)}...`
+                    : comment.body}
+                </p>
+                {showAnswer && revealed?.author && (
+                  <p className="text-xs text-gray-500">
+                    u/{revealed.author} • {revealed.ups} upvotes
                   </p>
-                  {/* Only show author and upvotes after answer is revealed */}
-                  {showAnswer && comment.author && (
-                    <p className="text-xs text-gray-500">
-                      u/{comment.author} • {comment.ups} upvotes
+                )}
+              </div>
+            );
+          })}
+          {isUpvoteGuess && (
+            <div className="grid grid-cols-2 gap-3">
+              {UPVOTE_BUCKETS.map((bucket, index) => {
+                const isSelected = selectedBucket === index;
+                const isAnswer = answer?.answerBucket === index;
+
+                let buttonClass = 'w-full p-3 border-2 rounded-lg transition-all duration-200 ';
+                if (showAnswer) {
+                  if (isAnswer) {
+                    buttonClass += 'bg-green-100 border-green-500 text-green-800';
+                  } else if (isSelected) {
+                    buttonClass += 'bg-red-100 border-red-500 text-red-800';
+                  } else {
+                    buttonClass += 'bg-gray-50 border-gray-300 text-gray-600';
+                  }
+                } else {
+                  buttonClass += isSelected
+                    ? 'bg-blue-100 border-blue-500 text-blue-800'
+                    : 'bg-white border-gray-300 hover:border-orange-400 hover:bg-orange-50 text-gray-800 cursor-pointer';
+                }
+
+                return (
+                  <button
+                    key={bucket.label}
+                    onClick={() => submitPick({ guess: index })}
+                    disabled={showAnswer || answerLoading}
+                    className={buttonClass}
+                  >
+                    <span className="text-sm font-medium">
+                      {bucket.label}
+                      {showAnswer && isAnswer && ' ✓'}
+                      {showAnswer && isSelected && !isAnswer && ' ✗'}
+                    </span>
+                    {showAnswer && answer && answer.totalAnswers > 0 && (
+                      <span className="block text-xs text-gray-500 mt-1">
+                        {Math.round(((answer.pickCounts[index] ?? 0) / answer.totalAnswers) * 100)}%
+                        picked this
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {question.type === 'guess-title' && (
+            <div className="space-y-3">
+              {question.titleOptions.map((option) => {
+                const isSelected = selectedTitle === option;
+                const isAnswer = showAnswer && option === answer?.title;
+
+                let buttonClass =
+                  'w-full p-3 text-left border-2 rounded-lg transition-all duration-200 ';
+                if (showAnswer) {
+                  if (isAnswer) {
+                    buttonClass += 'bg-green-100 border-green-500 text-green-800';
+                  } else if (isSelected) {
+                    buttonClass += 'bg-red-100 border-red-500 text-red-800';
+                  } else {
+                    buttonClass += 'bg-gray-50 border-gray-300 text-gray-600';
+                  }
+                } else {
+                  buttonClass += isSelected
+                    ? 'bg-blue-100 border-blue-500 text-blue-800'
+                    : 'bg-white border-gray-300 hover:border-orange-400 hover:bg-orange-50 text-gray-800 cursor-pointer';
+                }
+
+                return (
+                  <button
+                    key={option}
+                    onClick={() => submitPick({ titleGuess: option })}
+                    disabled={showAnswer || answerLoading}
+                    className={buttonClass}
+                  >
+                    <span className="text-sm font-medium">
+                      {option}
+                      {isAnswer && ' ✓'}
+                      {showAnswer && isSelected && !isAnswer && ' ✗'}
+                    </span>
+                    {showAnswer && answer && answer.totalAnswers > 0 && (
+                      <span className="block text-xs text-gray-500 mt-1">
+                        {Math.round(((answer.pickCounts[option] ?? 0) / answer.totalAnswers) * 100)}
+                        % picked this
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Ranking: drag the comments into upvote order */}
+      {isRanking && (
+        <RankComments
+          comments={question.comments}
+          answer={answer}
+          disabled={answerLoading}
+          onSubmit={(order) => submitPick({ order })}
+        />
+      )}
+
+      {/* Answer options */}
+      {!isUpvoteGuess && !isRanking && !isWhichSubreddit && !isGuessTitle && (
+        <div className="space-y-3 mb-6">
+          {question.comments.map((comment) => {
+            const isSelected = selectedCommentId === comment.id;
+            const isTopComment = comment.id === topCommentId;
+            const revealed = revealedById.get(comment.id);
+
+            let buttonClass =
+              'w-full p-4 text-left border-2 rounded-lg transition-all duration-200 ';
+
+            if (showAnswer) {
+              if (isTopComment) {
+                buttonClass += 'bg-green-100 border-green-500 text-green-800';
+              } else if (isSelected) {
+                buttonClass += 'bg-red-100 border-red-500 text-red-800';
+              } else {
+                buttonClass += 'bg-gray-50 border-gray-300 text-gray-600';
+              }
+            } else {
+              buttonClass += isSelected
+                ? 'bg-blue-100 border-blue-500 text-blue-800'
+                : 'bg-white border-gray-300 hover:border-orange-400 hover:bg-orange-50 text-gray-800 cursor-pointer';
+            }
+
+            return (
+              <button
+                key={comment.id}
+                onClick={() => submitPick({ commentId: comment.id })}
+                disabled={showAnswer || answerLoading}
+                className={buttonClass}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    {comment.gifUrl && (
+                      <div className="mb-2">
+                        <img
+                          src={comment.gifUrl}
+                          alt="Comment media"
+                          className="max-h-32 max-w-full rounded object-contain"
+                        />
+                      </div>
+                    )}
+                    <p className="text-sm font-medium mb-1">
+                      {comment.body.length > 200
+                        ? `${comment.body.substring(0, 200)}...`
+                        : comment.body}
                     </p>
+                    {/* Only show author and upvotes after answer is revealed */}
+                    {showAnswer && revealed?.author && (
+                      <p className="text-xs text-gray-500">
+                        u/{revealed.author} • {revealed.ups} upvotes
+                      </p>
+                    )}
+                    {showAnswer && answer && answer.totalAnswers > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {Math.round(
+                          ((answer.pickCounts[comment.id] ?? 0) / answer.totalAnswers) * 100
+                        )}
+                        % of players picked this
+                      </p>
+                    )}
+                  </div>
+                  {showAnswer && isTopComment && (
+                    <span className="ml-2 text-green-600 font-bold">✓ Top Comment</span>
+                  )}
+                  {showAnswer && isSelected && !isTopComment && (
+                    <span className="ml-2 text-red-600 font-bold">✗</span>
                   )}
                 </div>
-                {showAnswer && isTopComment && (
-                  <span className="ml-2 text-green-600 font-bold">✓ Top Comment</span>
-                )}
-                {showAnswer && isSelected && !isTopComment && (
-                  <span className="ml-2 text-red-600 font-bold">✗</span>
-                )}
-              </div>
-            </button>
-          );
-        })}
-      </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {answerError && (
+        <p className="mb-6 text-sm text-center text-red-600">
+          {answerError} Tap an answer to try again.
+        </p>
+      )}
 
       {/* Feedback */}
       {showAnswer && (
@@ -298,13 +677,50 @@ export const QuizQuestionComponent = ({
           >
             {resultMessage ?? (isCorrect ? "Correct! That's the top comment!" : 'Not quite.')}
           </p>
-          {!isCorrect && (
+          {answer && answer.elapsedMs != null && !answer.timedOut && (
+            <p className="text-xs text-gray-500 text-center mt-1">
+              Answered in {formatSeconds(answer.elapsedMs)}
+              {secondsPerQuestion > 0 &&
+                ` for ${formatScore(answer.points)} point${answer.points === 1 ? '' : 's'}`}
+            </p>
+          )}
+          {!isCorrect && isUpvoteGuess && answer?.comments[0] && (
+            <p className="text-gray-600 text-sm text-center mt-2">
+              It had {answer.comments[0].ups} upvotes.
+            </p>
+          )}
+          {!isCorrect && isRanking && answer && (
+            <p className="text-gray-600 text-sm text-center mt-2">
+              You earned {Math.round(answer.points * 100)}% of a point for the pairs you ordered
+              right.
+            </p>
+          )}
+          {!isCorrect && isWhichSubreddit && answer?.subreddit && (
+            <p className="text-gray-600 text-sm text-center mt-2">
+              It was posted in r/{answer.subreddit}.
+            </p>
+          )}
+          {!isCorrect && isGuessTitle && answer?.title && (
+            <p className="text-gray-600 text-sm text-center mt-2">
+              The real title was: &quot;{answer.title}&quot;
+            </p>
+          )}
+          {!isCorrect && topComment && !isUpvoteGuess && !isRanking && !isGuessTitle && (
             <p className="text-gray-600 text-sm text-center mt-2">
               The top comment was: &quot;{topComment.body.substring(0, 80)}
               {topComment.body.length > 80 ? '...' : ''}&quot;
             </p>
           )}
 
+          {/* The thread may have a different top comment by now; say so before they open it */}
+          {answer && answer.comments.length > 1 && (
+            <AnswerDrift
+              questionId={question.postId}
+              type={question.type ?? 'top-comment'}
+              comments={answer.comments}
+            />
+          )}
+
           {/* View on Reddit link */}
           <div className="mt-4 text-center relative z-10">
             <button
@@ -347,7 +763,7 @@ export const QuizQuestionComponent = ({
               disabled={reportSubmitted || reportLoading}
               title={`Report this post if the content is offensive, disturbing, or not suitable for the quiz.
 
-After enough reports, it will be replaced with another question.`}
+After enough reports, moderators will review it and may replace it with another question.`}
               className="text-xs text-gray-500 hover:text-gray-700 hover:underline cursor-pointer bg-transparent border-none p-1 disabled:opacity-50 disabled:cursor-default disabled:no-underline"
             >
               {reportSubmitted
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import type { AnswerResponse, PublicQuizComment } from '../../shared/types/api';
+
+type RankCommentsProps = {
+  /** Options in the (shuffled) order the server sent them */
+  comments: PublicQuizComment[];
+  /** Set once the ranking has been scored */
+  answer: AnswerResponse | null;
+  disabled: boolean;
+  onSubmit: (order: string[]) => void;
+};
+
+/**
+ * Drag (or nudge with the arrows, for touch screens) the comments into upvote order,
+ * highest first. After scoring, each row shows where it really ranked.
+ */
+export const RankComments = ({ comments, answer, disabled, onSubmit }: RankCommentsProps) => {
+  const [order, setOrder] = useState(() => comments.map((c) => c.id));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const byId = new Map(comments.map((c) => [c.id, c]));
+  // Revealed comments come back top-first, so their index is the true rank
+  const trueRank = new Map((answer?.comments ?? []).map((c, i) => [c.id, i]));
+  const revealedById = new Map((answer?.comments ?? []).map((c) => [c.id, c]));
+  const shownOrder = answer?.rankOrder ?? order;
+  const locked = disabled || answer != null;
+
+  const move = (from: number, to: number) => {
+    if (locked || from === to || to < 0 || to >= order.length) return;
+    const next = [...order];
+    const [id] = next.splice(from, 1);
+    next.splice(to, 0, id!);
+    setOrder(next);
+  };
+
+  const handleDrop = (e: React.DragEvent, to: number) => {
+    e.preventDefault();
+    if (dragIndex != null) move(dragIndex, to);
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="mb-6">
+      <ol className="space-y-3 mb-4">
+        {shownOrder.map((id, index) => {
+          const comment = byId.get(id);
+          if (!comment) return null;
+          const rank = trueRank.get(id);
+          const revealed = revealedById.get(id);
+
+          let rowClass =
+            'flex items-start gap-3 p-4 border-2 rounded-lg transition-all duration-200 ';
+          if (answer) {
+            rowClass +=
+              rank === index
+                ? 'bg-green-100 border-green-500 text-green-800'
+                : 'bg-red-100 border-red-500 text-red-800';
+          } else {
+            rowClass +=
+              dragIndex === index
+                ? 'bg-blue-100 border-blue-500 text-blue-800'
+                : 'bg-white border-gray-300 text-gray-800 cursor-move';
+          }
+
+          return (
+            <li
+              key={id}
+              draggable={!locked}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={rowClass}
+            >
+              <span className="text-lg font-bold w-6 text-center">{index + 1}</span>
+              <div className="flex-1">
+                {comment.gifUrl && (
+                  <div className="mb-2">
+                    <img
+                      src={comment.gifUrl}
+                      alt="Comment media"
+                      className="max-h-32 max-w-full rounded object-contain"
+                    />
+                  </div>
+                )}
+                <p className="text-sm font-medium mb-1">
+                  {comment.body.length > 200
+                    ? `${comment.body.substring(0, 200)}...`
+                    : comment.body}
+                </p>
+                {revealed && rank != null && (
+                  <p className="text-xs text-gray-500">
+                    Actually #{rank + 1} • u/{revealed.author} • {revealed.ups} upvotes
+                  </p>
+                )}
+                {answer && answer.totalAnswers > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {Math.round(((answer.pickCounts[id] ?? 0) / answer.totalAnswers) * 100)}% of
+                    players ranked this first
+                  </p>
+                )}
+              </div>
+              {!answer && (
+                <div className="flex flex-col gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(index, index - 1)}
+                    disabled={locked || index === 0}
+                    aria-label="Move up"
+                    className="px-2 text-gray-600 hover:text-orange-600 disabled:opacity-30 bg-transparent border-none cursor-pointer"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, index + 1)}
+                    disabled={locked || index === order.length - 1}
+                    aria-label="Move down"
+                    className="px-2 text-gray-600 hover:text-orange-600 disabled:opacity-30 bg-transparent border-none cursor-pointer"
+                  >
+                    ▼
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {!answer && (
+        <button
+          type="button"
+          onClick={() => onSubmit(order)}
+          disabled={locked}
+          className="w-full py-3 px-4 rounded-md font-medium bg-gray-800 hover:bg-gray-900 text-white transition-colors disabled:opacity-50"
+        >
+          Lock In Ranking
+        </button>
+      )}
+    </div>
+  );
+};
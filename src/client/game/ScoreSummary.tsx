@@ -1,6 +1,17 @@
 import React, { useEffect, useState } from 'react';
 import { context, navigateTo } from '@devvit/web/client';
 import { OFFICIAL_SUBREDDIT } from '../../shared/config/subreddits';
+import { formatScore } from '../../shared/config/questionTypes';
+import { formatSeconds } from '../../shared/config/timing';
+import type {
+  CompleteQuizResponse,
+  LeaderboardResponse,
+  MeResponse,
+  PlayerProfile,
+  RecordedAttempt,
+} from '../../shared/types/api';
+import { LeaderboardPanel } from './Leaderboard';
+import { PlayerStats } from './PlayerStats';
 
 const DISCUSSION_QUESTIONS = [
   'What was your strategy?',
@@ -12,11 +23,22 @@ const DISCUSSION_QUESTIONS = [
   'What made you pick the answers you did?',
 ] as const;
 
+/** How one question went, for the per-question breakdown */
+export type QuestionResult = {
+  title: string;
+  points: number;
+  /** Time the server measured from serving the question to the pick, if known */
+  elapsedMs: number | null;
+  timedOut: boolean;
+};
+
 type ScoreSummaryProps = {
   score: number;
   totalQuestions: number;
+  questionResults: QuestionResult[];
   subreddit: string;
-  allowShare: boolean;
+  /** Scored attempt already on record before this play; when set, this play was practice */
+  recordedAttempt: RecordedAttempt | null;
   onRestart: () => void;
 };
 
@@ -65,16 +87,22 @@ const Confetti = () => {
 export const ScoreSummary = ({
   score,
   totalQuestions,
+  questionResults,
   subreddit,
-  allowShare,
+  recordedAttempt,
   onRestart,
 }: ScoreSummaryProps) => {
+  const isPractice = recordedAttempt != null;
   const [showConfetti, setShowConfetti] = useState(true);
   const [shareLoading, setShareLoading] = useState(false);
   const [shareSuccess, setShareSuccess] = useState(false);
   const [subscribeLoading, setSubscribeLoading] = useState(false);
   const [subscribeSuccess, setSubscribeSuccess] = useState(false);
   const [strategyText, setStrategyText] = useState('');
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResponse | null>(null);
+  const [leaderboardLoading, setLeaderboardLoading] = useState(true);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [attempt, setAttempt] = useState<RecordedAttempt | null>(recordedAttempt);
   const [discussionQuestion] = useState(
     () =>
       DISCUSSION_QUESTIONS[Math.floor(Math.random() * DISCUSSION_QUESTIONS.length)] ??
@@ -86,6 +114,43 @@ export const ScoreSummary = ({
   const currentSubreddit = (context as { subredditName?: string } | undefined)?.subredditName;
   const subscribeSubredditLabel = currentSubreddit ?? OFFICIAL_SUBREDDIT;
 
+  // Record the (server-scored) first attempt, then load the post's leaderboard and updated stats
+  useEffect(() => {
+    if (!postId) {
+      setLeaderboardLoading(false);
+      return;
+    }
+    const loadLeaderboard = async () => {
+      try {
+        const completeResponse = await fetch('/api/complete-quiz', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ postId }),
+        });
+        if (completeResponse.ok) {
+          const data: CompleteQuizResponse = await completeResponse.json();
+          setAttempt(data.attempt);
+        }
+        const [leaderboardResponse, meResponse] = await Promise.all([
+          fetch(`/api/leaderboard?postId=${encodeURIComponent(postId)}`),
+          fetch('/api/me'),
+        ]);
+        if (leaderboardResponse.ok) {
+          setLeaderboard(await leaderboardResponse.json());
+        }
+        if (meResponse.ok) {
+          const data: MeResponse = await meResponse.json();
+          setProfile(data.profile);
+        }
+      } catch (error) {
+        console.error('Failed to load leaderboard:', error);
+      } finally {
+        setLeaderboardLoading(false);
+      }
+    };
+    void loadLeaderboard();
+  }, [postId]);
+
   // Hide confetti after animation completes
   useEffect(() => {
     const timer = setTimeout(() => setShowConfetti(false), 4000);
@@ -107,10 +172,9 @@ export const ScoreSummary = ({
       const response = await fetch('/api/share-score', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        // Score isn't sent: the server shares the recorded first attempt
         body: JSON.stringify({
           postId: postId,
-          score: score,
-          totalQuestions: totalQuestions,
           subreddit: subreddit,
           strategy: strategyText.trim(),
           question: discussionQuestion,
@@ -229,17 +293,43 @@ export const ScoreSummary = ({
         <div className="text-center">
           {/* Score Display */}
           <div className="mb-4">
-            <h2 className="text-2xl font-bold text-gray-800 mb-2">Quiz Complete!</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">
+              {isPractice ? 'Practice Complete!' : 'Quiz Complete!'}
+            </h2>
             <div className="text-4xl font-bold bg-gradient-to-r from-orange-500 to-red-500 bg-clip-text text-transparent mb-3">
-              {score}/{totalQuestions}
+              {formatScore(score)}/{totalQuestions}
             </div>
             <p className={`text-sm font-semibold ${scoreDisplay.color} leading-relaxed`}>
               {scoreDisplay.message}
             </p>
           </div>
 
-          {/* Share Score Form - only on first completion; after Play Again, score is locked in */}
-          {allowShare ? (
+          {/* Per-question points and times */}
+          {questionResults.length > 0 && (
+            <ol className="mb-4 space-y-1 text-left">
+              {questionResults.map((result, i) => (
+                <li
+                  key={i}
+                  className="flex items-center justify-between gap-2 text-xs text-gray-600"
+                >
+                  <span className="truncate">
+                    {i + 1}. {result.title}
+                  </span>
+                  <span className="whitespace-nowrap font-medium">
+                    {result.timedOut
+                      ? "Time's up"
+                      : result.elapsedMs != null
+                        ? formatSeconds(result.elapsedMs)
+                        : '–'}{' '}
+                    • {formatScore(result.points)} pt
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {/* Share Score Form - only on the first (recorded) attempt; replays are practice */}
+          {!isPractice && attempt ? (
             <form onSubmit={handleShareScore} className="mb-4">
               <textarea
                 value={strategyText}
@@ -291,10 +381,26 @@ export const ScoreSummary = ({
             </form>
           ) : (
             <p className="mb-4 text-sm text-gray-600">
-              Your score is locked in. Replaying is just for fun!
+              {attempt
+                ? `Your score is locked in at ${formatScore(attempt.score)}/${attempt.totalQuestions}. Replaying is just for fun!`
+                : leaderboardLoading
+                  ? 'Recording your score...'
+                  : 'Log in to record and share your score.'}
             </p>
           )}
 
+          {/* Lifetime stats */}
+          {profile && (
+            <div className="mb-4">
+              <PlayerStats profile={profile} detailed />
+            </div>
+          )}
+
+          {/* Leaderboard */}
+          <div className="mb-4">
+            <LeaderboardPanel leaderboard={leaderboard} loading={leaderboardLoading} />
+          </div>
+
           {/* Action Buttons */}
           <div className="space-y-2.5">
             <button
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RankCommentsQuestion, UpvoteGuessQuestion } from '../../shared/types/api';
+import { scoreRecordedAnswers, storeAnswerKeys, submitAnswer } from './answers';
+
+const store = vi.hoisted(() => ({
+  strings: new Map<string, string>(),
+  hashes: new Map<string, Map<string, string>>(),
+}));
+
+vi.mock('@devvit/web/server', () => {
+  const hash = (key: string) => {
+    if (!store.hashes.has(key)) store.hashes.set(key, new Map());
+    return store.hashes.get(key)!;
+  };
+  return {
+    context: {},
+    reddit: {},
+    redis: {
+      get: async (key: string) => store.strings.get(key),
+      set: async (key: string, value: string) => {
+        store.strings.set(key, value);
+        return 'OK';
+      },
+      expire: async () => {},
+      hGet: async (key: string, field: string) => hash(key).get(field),
+      hGetAll: async (key: string) => Object.fromEntries(hash(key)),
+      hSet: async (key: string, values: Record<string, string>) => {
+        Object.entries(values).forEach(([field, value]) => hash(key).set(field, value));
+        return Object.keys(values).length;
+      },
+      hSetNX: async (key: string, field: string, value: string) => {
+        if (hash(key).has(field)) return 0;
+        hash(key).set(field, value);
+        return 1;
+      },
+    },
+  };
+});
+
+vi.mock('./questionStats', () => ({
+  recordQuestionResult: async () => {},
+  getQuestionStats: async () => ({ picks: {}, attempts: 0 }),
+  withPlayerDifficulty: async <T>(quiz: T) => quiz,
+}));
+
+const QUIZ_POST = 'quizpost';
+
+function upvoteQuestion(postId: string, ups: number): UpvoteGuessQuestion {
+  return {
+    postId,
+    type: 'upvote-guess',
+    title: `Post ${postId}`,
+    author: 'op',
+    permalink: `/r/test/comments/${postId}`,
+    comments: [{ id: `${postId}-top`, body: 'The top comment', ups, author: 'commenter' }],
+  };
+}
+
+function rankQuestion(postId: string): RankCommentsQuestion {
+  return {
+    postId,
+    type: 'rank-comments',
+    title: `Post ${postId}`,
+    author: 'op',
+    permalink: `/r/test/comments/${postId}`,
+    comments: [
+      { id: 'first', body: 'First', ups: 300, author: null },
+      { id: 'second', body: 'Second', ups: 200, author: null },
+      { id: 'third', body: 'Third', ups: 100, author: null },
+    ],
+  };
+}
+
+beforeEach(async () => {
+  store.strings.clear();
+  store.hashes.clear();
+  // 250-999 upvotes is bucket 2
+  await storeAnswerKeys(QUIZ_POST, [
+    upvoteQuestion('a', 400),
+    upvoteQuestion('b', 20000),
+    rankQuestion('c'),
+  ]);
+});
+
+describe('submitAnswer for upvote guesses', () => {
+  it('gives a point for the right bucket and reports both buckets', async () => {
+    const result = await submitAnswer(QUIZ_POST, 'a', { guess: 2 }, 'user');
+    expect(result).toMatchObject({
+      correct: true,
+      points: 1,
+      guessBucket: 2,
+      answerBucket: 2,
+      selectedCommentId: 'a-top',
+      topCommentId: 'a-top',
+    });
+  });
+
+  it('gives half a point one bucket off, which is not correct', async () => {
+    const result = await submitAnswer(QUIZ_POST, 'a', { guess: 3 }, 'user');
+    expect(result).toMatchObject({ correct: false, points: 0.5, guessBucket: 3 });
+  });
+
+  it('gives nothing two buckets off', async () => {
+    const result = await submitAnswer(QUIZ_POST, 'a', { guess: 0 }, 'user');
+    expect(result).toMatchObject({ correct: false, points: 0 });
+  });
+
+  it('scores the highest bucket at its minimum', async () => {
+    const result = await submitAnswer(QUIZ_POST, 'b', { guess: 5 }, 'user');
+    expect(result).toMatchObject({ correct: true, points: 1, answerBucket: 5 });
+  });
+
+  it('rejects guesses outside the buckets', async () => {
+    expect(await submitAnswer(QUIZ_POST, 'a', { guess: 6 }, 'user')).toBeNull();
+    expect(await submitAnswer(QUIZ_POST, 'a', { guess: -1 }, 'user')).toBeNull();
+    expect(await submitAnswer(QUIZ_POST, 'a', { guess: 1.5 }, 'user')).toBeNull();
+  });
+
+  it('keeps the first recorded guess', async () => {
+    await submitAnswer(QUIZ_POST, 'a', { guess: 0 }, 'user');
+    const again = await submitAnswer(QUIZ_POST, 'a', { guess: 2 }, 'user');
+    expect(again).toMatchObject({ alreadyAnswered: true, points: 0, guessBucket: 0 });
+  });
+
+  it("doesn't find questions another post served", async () => {
+    expect(await submitAnswer('otherpost', 'a', { guess: 2 }, 'user')).toBeNull();
+  });
+});
+
+describe('submitAnswer for rankings', () => {
+  it('gives a point for the right order', async () => {
+    const result = await submitAnswer(QUIZ_POST, 'c', { order: ['first', 'second', 'third'] });
+    expect(result).toMatchObject({ correct: true, points: 1, selectedCommentId: 'first' });
+  });
+
+  it('credits a partly right order per pair', async () => {
+    const result = await submitAnswer(QUIZ_POST, 'c', { order: ['first', 'third', 'second'] });
+    expect(result).toMatchObject({
+      correct: false,
+      points: 0.67,
+      rankOrder: ['first', 'third', 'second'],
+    });
+  });
+
+  it('rejects orders that leave out, repeat or invent comments', async () => {
+    expect(await submitAnswer(QUIZ_POST, 'c', { order: ['first', 'second'] })).toBeNull();
+    expect(await submitAnswer(QUIZ_POST, 'c', { order: ['first', 'first', 'second'] })).toBeNull();
+    expect(await submitAnswer(QUIZ_POST, 'c', { order: ['first', 'second', 'other'] })).toBeNull();
+  });
+});
+
+describe('scoreRecordedAnswers with upvote guesses', () => {
+  it('adds up partial credit out of the whole quiz, counting unanswered questions as 0', async () => {
+    await submitAnswer(QUIZ_POST, 'a', { guess: 3 }, 'user');
+    expect(await scoreRecordedAnswers(QUIZ_POST, 'user', 3)).toEqual({
+      score: 0.5,
+      totalQuestions: 3,
+      answeredQuestions: 1,
+    });
+  });
+});
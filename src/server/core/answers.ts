@@ -0,0 +1,404 @@
+import { redis } from '@devvit/web/server';
+import {
+  getQuestionKeyId,
+  getUpvoteBucket,
+  isValidRanking,
+  isValidUpvoteBucket,
+  scoreRanking,
+  scoreUpvoteGuess,
+  type QuestionType,
+} from '../../shared/config/questionTypes';
+import { isTimedOut, scoreWithSpeed } from '../../shared/config/timing';
+import type {
+  AnswerRequest,
+  AnswerResponse,
+  PublicQuizQuestion,
+  QuizQuestion,
+} from '../../shared/types/api';
+import { shuffle } from './quiz';
+import { getQuestionStats, recordQuestionResult, withPlayerDifficulty } from './questionStats';
+
+/** Answer keys and recorded picks live as long as the quiz cache (30 days) */
+const ANSWER_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * The full question (answer key) as served on a quiz post, by getQuestionKeyId. Scoped to the
+ * post so each post scores against the quiz it served, whatever other posts serve later.
+ * Format: question:{postId}:{keyId}
+ */
+function questionKey(postId: string, keyId: string): string {
+  return `question:${postId}:${keyId}`;
+}
+
+function answersKey(postId: string, userId: string): string {
+  return `answers:${postId}:${userId}`;
+}
+
+function quizStartKey(postId: string, userId: string): string {
+  return `quiz_start:${postId}:${userId}`;
+}
+
+/**
+ * When each question was first served to the user (ms), by getQuestionKeyId.
+ * Format: question_served:{postId}:{userId}
+ */
+function questionServedKey(postId: string, userId: string): string {
+  return `question_served:${postId}:${userId}`;
+}
+
+/**
+ * Milliseconds from serving each question to the user's recorded pick, by getQuestionKeyId.
+ * Format: answer_times:{postId}:{userId}
+ */
+function answerTimesKey(postId: string, userId: string): string {
+  return `answer_times:${postId}:${userId}`;
+}
+
+/** Rankings are recorded as comment IDs joined in the order submitted */
+const RANKING_SEPARATOR = ',';
+
+/** Recorded in place of a pick when a timed question's countdown ran out (no real pick is empty) */
+const TIMED_OUT_PICK = '';
+
+/**
+ * Points for a recorded pick: a comment ID for top-comment questions, a bucket index for
+ * upvote guesses, joined comment IDs for rankings, a subreddit for which-subreddit questions,
+ * a title for guess-title questions
+ */
+function scorePick(question: QuizQuestion, pick: string): number {
+  if (pick === TIMED_OUT_PICK) return 0;
+  if (question.type === 'which-subreddit') {
+    return pick.toLowerCase() === question.subreddit.toLowerCase() ? 1 : 0;
+  }
+  if (question.type === 'guess-title') return pick === question.title ? 1 : 0;
+  const topComment = question.comments[0];
+  if (!topComment) return 0;
+  if (question.type === 'upvote-guess') {
+    const bucket = parseInt(pick, 10);
+    return isValidUpvoteBucket(bucket) ? scoreUpvoteGuess(bucket, topComment.ups) : 0;
+  }
+  if (question.type === 'rank-comments') {
+    const correctOrder = question.comments.map((c) => c.id);
+    return scoreRanking(pick.split(RANKING_SEPARATOR), correctOrder);
+  }
+  return pick === topComment.id ? 1 : 0;
+}
+
+type Answer = Pick<
+  AnswerRequest,
+  'commentId' | 'guess' | 'order' | 'subreddit' | 'titleGuess' | 'timedOut' | 'type'
+>;
+
+/** Which question type an answer is for, from the field it fills in (time-outs name it) */
+function answerType(answer: Answer): QuestionType {
+  if (answer.timedOut) return answer.type ?? 'top-comment';
+  if (answer.guess != null) return 'upvote-guess';
+  if (answer.order != null) return 'rank-comments';
+  if (answer.subreddit != null) return 'which-subreddit';
+  if (answer.titleGuess != null) return 'guess-title';
+  return 'top-comment';
+}
+
+/** Self posts link to their own permalink, which names the subreddit and title */
+const PERMALINK_RE = /reddit\.com\/r\//i;
+
+/**
+ * Strip ups/author from comments and shuffle them so the client can't tell the answer.
+ * Comments are stored top-first on the server; the client only sees a random order.
+ * Which-subreddit and guess-title questions drop the answer and get a short link to the post
+ * that names neither the subreddit nor the title. Guess-title questions also drop the link
+ * post's own URL, since article slugs often spell out the title.
+ */
+export function toPublicQuestion(question: QuizQuestion): PublicQuizQuestion {
+  const comments = shuffle(question.comments).map((comment) => ({
+    id: comment.id,
+    body: comment.body,
+    ...(comment.gifUrl && { gifUrl: comment.gifUrl }),
+  }));
+  const permalink = `https://www.reddit.com/comments/${question.postId}`;
+  if (question.type === 'which-subreddit') {
+    const { subreddit: _subreddit, url: _url, ...rest } = question;
+    return {
+      ...rest,
+      ...(question.url && !PERMALINK_RE.test(question.url) && { url: question.url }),
+      permalink,
+      subredditOptions: shuffle(question.subredditOptions),
+      comments,
+    };
+  }
+  if (question.type === 'guess-title') {
+    const { title: _title, url: _url, ...rest } = question;
+    return { ...rest, permalink, titleOptions: shuffle(question.titleOptions), comments };
+  }
+  return { ...question, comments };
+}
+
+/**
+ * Store the full question (answer key) for each question a quiz post serves so /api/answer can
+ * score it. Keyed by post and question (see getQuestionKeyId), so replacement questions are
+ * covered too.
+ */
+export async function storeAnswerKeys(postId: string, quiz: QuizQuestion[]): Promise<void> {
+  const expiration = new Date(Date.now() + ANSWER_TTL_SECONDS * 1000);
+  try {
+    await Promise.all(
+      quiz.map((question) =>
+        redis.set(
+          questionKey(postId, getQuestionKeyId(question.postId, question.type)),
+          JSON.stringify(question),
+          { expiration }
+        )
+      )
+    );
+  } catch (error) {
+    console.error(`Failed to store quiz answer keys for post ${postId}:`, error);
+    // Don't throw - answers will fail for these questions, but the quiz still loads
+  }
+}
+
+/**
+ * Store answer keys and return the client-safe version of the quiz, with difficulty
+ * refined by how players have done on each question so far. Keys are only stored for quiz
+ * posts (`postId`); quizzes served without one can be browsed but not answered.
+ */
+export async function prepareQuizForClient(
+  quiz: QuizQuestion[],
+  postId?: string
+): Promise<PublicQuizQuestion[]> {
+  if (postId) await storeAnswerKeys(postId, quiz);
+  return (await withPlayerDifficulty(quiz)).map(toPublicQuestion);
+}
+
+export async function getAnswerKey(postId: string, keyId: string): Promise<QuizQuestion | null> {
+  const raw = await redis.get(questionKey(postId, keyId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as QuizQuestion;
+  } catch (error) {
+    console.error(`Failed to parse answer key for question ${keyId} on post ${postId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Score a pick against the stored answer key: a comment for top-comment questions, an upvote
+ * bucket for upvote guesses, an order of every comment for rankings, a subreddit for
+ * which-subreddit questions, a title for guess-title questions. The user's first pick per
+ * post/question is recorded and authoritative: later picks for the same question return the
+ * original result.
+ * In practice mode (the user already completed this post) picks are scored but never recorded.
+ * Recorded picks also count toward the question's answer tallies, returned with the result.
+ * In timed quizzes (`secondsPerQuestion` > 0) points scale with the time since the question was
+ * served (see markQuestionServed); a time-out, or a pick arriving after the countdown, scores 0.
+ * Returns null if the question is unknown (never served or expired) or the pick doesn't fit it.
+ */
+export async function submitAnswer(
+  postId: string,
+  questionId: string,
+  answer: Answer,
+  userId?: string,
+  practice = false,
+  secondsPerQuestion = 0
+): Promise<AnswerResponse | null> {
+  const keyId = getQuestionKeyId(questionId, answerType(answer));
+  const question = await getAnswerKey(postId, keyId);
+  if (!question) return null;
+  const topComment = question.comments[0];
+
+  let pick: string;
+  if (answer.timedOut) {
+    pick = TIMED_OUT_PICK;
+  } else if (question.type === 'which-subreddit') {
+    const picked = question.subredditOptions.find(
+      (sub) => sub.toLowerCase() === answer.subreddit?.toLowerCase()
+    );
+    if (!picked) return null;
+    pick = picked;
+  } else if (!topComment) {
+    return null;
+  } else if (question.type === 'upvote-guess') {
+    if (!isValidUpvoteBucket(answer.guess)) return null;
+    pick = answer.guess.toString();
+  } else if (question.type === 'guess-title') {
+    if (!answer.titleGuess || !question.titleOptions.includes(answer.titleGuess)) return null;
+    pick = answer.titleGuess;
+  } else if (question.type === 'rank-comments') {
+    const commentIds = question.comments.map((c) => c.id);
+    if (!isValidRanking(answer.order, commentIds)) return null;
+    pick = answer.order.join(RANKING_SEPARATOR);
+  } else {
+    if (!answer.commentId || !question.comments.some((c) => c.id === answer.commentId)) {
+      return null;
+    }
+    pick = answer.commentId;
+  }
+
+  const servedAt = userId ? await getQuestionServedAt(postId, userId, keyId) : null;
+  let elapsedMs = servedAt != null ? Date.now() - servedAt : null;
+  if (isTimedOut(elapsedMs, secondsPerQuestion)) pick = TIMED_OUT_PICK;
+
+  let alreadyAnswered = false;
+  if (userId && !practice) {
+    const key = answersKey(postId, userId);
+    const isNew = await redis.hSetNX(key, keyId, pick);
+    if (isNew) {
+      await redis.expire(key, ANSWER_TTL_SECONDS);
+      if (elapsedMs != null) {
+        await redis.hSet(answerTimesKey(postId, userId), { [keyId]: elapsedMs.toString() });
+        await redis.expire(answerTimesKey(postId, userId), ANSWER_TTL_SECONDS);
+      }
+      // Rankings are tallied by the comment put first; time-outs count as a miss with no pick
+      const tallied = pick === TIMED_OUT_PICK ? null : (pick.split(RANKING_SEPARATOR)[0] ?? pick);
+      await recordQuestionResult(question, tallied, scorePick(question, pick));
+    } else {
+      pick = (await redis.hGet(key, keyId)) ?? pick;
+      elapsedMs = parseElapsed(await redis.hGet(answerTimesKey(postId, userId), keyId));
+      alreadyAnswered = true;
+    }
+  }
+
+  const basePoints = scorePick(question, pick);
+  const timedOut = pick === TIMED_OUT_PICK;
+  const rankOrder = pick.split(RANKING_SEPARATOR);
+  const stats = await getQuestionStats(keyId);
+  return {
+    correct: basePoints === 1,
+    points: scoreWithSpeed(basePoints, elapsedMs, secondsPerQuestion),
+    elapsedMs,
+    timedOut,
+    ...(topComment && {
+      ...(!timedOut && {
+        selectedCommentId:
+          question.type === 'upvote-guess' || question.type === 'guess-title'
+            ? topComment.id
+            : rankOrder[0]!,
+      }),
+      topCommentId: topComment.id,
+    }),
+    ...(question.type === 'upvote-guess' &&
+      topComment && {
+        ...(!timedOut && { guessBucket: parseInt(pick, 10) }),
+        answerBucket: getUpvoteBucket(topComment.ups),
+      }),
+    ...(question.type === 'rank-comments' && !timedOut && { rankOrder }),
+    ...(question.type === 'which-subreddit' && {
+      ...(!timedOut && { subredditGuess: pick }),
+      subreddit: question.subreddit,
+    }),
+    ...(question.type === 'guess-title' && {
+      ...(!timedOut && { titleGuess: pick }),
+      title: question.title,
+    }),
+    comments: question.comments,
+    alreadyAnswered,
+    practice,
+    pickCounts: stats.picks,
+    totalAnswers: stats.attempts,
+  };
+}
+
+/**
+ * Whether the user has a recorded pick (or time-out) for a question on a post
+ */
+export async function hasRecordedPick(
+  postId: string,
+  userId: string,
+  keyId: string
+): Promise<boolean> {
+  return (await redis.hGet(answersKey(postId, userId), keyId)) != null;
+}
+
+/**
+ * Record when a user first loaded the quiz on a post (used for time-to-complete).
+ * Only the first start is kept so reloading doesn't reset the clock.
+ */
+export async function recordQuizStart(postId: string, userId: string): Promise<void> {
+  const expiration = new Date(Date.now() + ANSWER_TTL_SECONDS * 1000);
+  try {
+    await redis.set(quizStartKey(postId, userId), Date.now().toString(), {
+      nx: true,
+      expiration,
+    });
+  } catch (error) {
+    console.error(`Failed to record quiz start for post ${postId}:`, error);
+  }
+}
+
+export async function getQuizStart(postId: string, userId: string): Promise<number | null> {
+  const raw = await redis.get(quizStartKey(postId, userId));
+  const startedAt = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(startedAt) ? startedAt : null;
+}
+
+function parseElapsed(raw: string | undefined | null): number | null {
+  const ms = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Record when a question (by getQuestionKeyId) was served to the user and return that time.
+ * The first serve is kept so reloading doesn't reset a timed question's countdown; practice
+ * replays restart it each time.
+ */
+export async function markQuestionServed(
+  postId: string,
+  keyId: string,
+  userId: string,
+  practice: boolean
+): Promise<number> {
+  const key = questionServedKey(postId, userId);
+  const now = Date.now();
+  if (practice) {
+    await redis.hSet(key, { [keyId]: now.toString() });
+  } else if (!(await redis.hSetNX(key, keyId, now.toString()))) {
+    return (await getQuestionServedAt(postId, userId, keyId)) ?? now;
+  }
+  await redis.expire(key, ANSWER_TTL_SECONDS);
+  return now;
+}
+
+async function getQuestionServedAt(
+  postId: string,
+  userId: string,
+  keyId: string
+): Promise<number | null> {
+  return parseElapsed(await redis.hGet(questionServedKey(postId, userId), keyId));
+}
+
+/**
+ * Score a user's recorded first picks on a post against the stored answer keys.
+ * This is the only score we trust for leaderboards; the client's own count is ignored.
+ * The score is out of the quiz's `questionCount`: unanswered questions count as 0.
+ * Upvote guesses, rankings and timed quizzes can earn partial points, so the score may be
+ * fractional.
+ */
+export async function scoreRecordedAnswers(
+  postId: string,
+  userId: string,
+  questionCount: number,
+  secondsPerQuestion = 0
+): Promise<{ score: number; totalQuestions: number; answeredQuestions: number }> {
+  const [picks, times] = await Promise.all([
+    redis.hGetAll(answersKey(postId, userId)),
+    redis.hGetAll(answerTimesKey(postId, userId)),
+  ]);
+  const entries = Object.entries(picks);
+  const keys = await Promise.all(entries.map(([keyId]) => getAnswerKey(postId, keyId)));
+  let score = 0;
+  entries.forEach(([keyId, pick], i) => {
+    const question = keys[i];
+    if (!question) return;
+    score += scoreWithSpeed(
+      scorePick(question, pick),
+      parseElapsed(times[keyId]),
+      secondsPerQuestion
+    );
+  });
+  // Partial credit adds up in hundredths; drop floating-point noise
+  return {
+    score: Math.round(score * 100) / 100,
+    // Picks on questions since replaced still count, so never report fewer than were answered
+    totalQuestions: Math.max(questionCount, entries.length),
+    answeredQuestions: entries.length,
+  };
+}
@@ -0,0 +1,59 @@
+import { redis } from '@devvit/web/server';
+import type { RecordedAttempt } from '../../shared/types/api';
+
+/** Attempts live as long as the post metadata and quiz cache (30 days) */
+const ATTEMPT_TTL_DAYS = 30;
+
+/**
+ * First completed attempt per user per post.
+ * Format: attempt:{postId}:{userId}
+ */
+function attemptKey(postId: string, userId: string): string {
+  return `attempt:${postId}:${userId}`;
+}
+
+/**
+ * The user's scored attempt on a post, or null if they haven't completed it yet.
+ * Anything played after this exists is practice.
+ */
+export async function getRecordedAttempt(
+  postId: string,
+  userId: string
+): Promise<RecordedAttempt | null> {
+  const raw = await redis.get(attemptKey(postId, userId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RecordedAttempt;
+  } catch (error) {
+    console.error(`Failed to parse attempt for post ${postId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record the user's first completed attempt on a post.
+ * Returns the attempt that is on record and whether this call created it;
+ * an existing attempt is never overwritten.
+ */
+export async function recordAttempt(
+  postId: string,
+  userId: string,
+  attempt: Omit<RecordedAttempt, 'completedAt'>
+): Promise<{ attempt: RecordedAttempt; created: boolean }> {
+  const existing = await getRecordedAttempt(postId, userId);
+  if (existing) return { attempt: existing, created: false };
+
+  const stored: RecordedAttempt = { ...attempt, completedAt: new Date().toISOString() };
+  const expiration = new Date();
+  expiration.setDate(expiration.getDate() + ATTEMPT_TTL_DAYS);
+  // A concurrent completion may have recorded first; nx leaves it in place and returns no "OK"
+  const result = await redis.set(attemptKey(postId, userId), JSON.stringify(stored), {
+    nx: true,
+    expiration,
+  });
+  if (!result) {
+    const winner = await getRecordedAttempt(postId, userId);
+    if (winner) return { attempt: winner, created: false };
+  }
+  return { attempt: stored, created: true };
+}
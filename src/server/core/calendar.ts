@@ -0,0 +1,129 @@
+import { redis } from '@devvit/web/server';
+import { getDailySubreddit, getDailySubredditForDate } from '../../shared/config/subreddits';
+import type { ScheduledDay } from '../../shared/types/api';
+import { getActiveRotation, isValidSubredditName, normalizeSubredditName } from './rotation';
+
+/**
+ * Mod-pinned subreddits by date (themed days, holidays).
+ * Hash of YYYY-MM-DD -> JSON { subreddit, note?, pinnedAt }
+ */
+const CALENDAR_PINS_KEY = 'calendar_pins';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type StoredPin = {
+  subreddit: string;
+  note?: string;
+  pinnedAt: string;
+};
+
+export function isValidDate(date: string): boolean {
+  return DATE_RE.test(date) && !Number.isNaN(new Date(`${date}T00:00:00Z`).getTime());
+}
+
+export function todayDate(): string {
+  return new Date().toISOString().split('T')[0] ?? '';
+}
+
+/** YYYY-MM-DD date `days` after the given date (UTC) */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0] ?? '';
+}
+
+function parsePin(raw: string | undefined | null): StoredPin | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredPin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pin a subreddit to a date. Pinned dates override the rotation; the subreddit
+ * doesn't have to be in the rotation.
+ */
+export async function pinSubreddit(date: string, subreddit: string, note?: string): Promise<void> {
+  const name = normalizeSubredditName(subreddit);
+  if (!isValidDate(date)) throw new Error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+  if (!isValidSubredditName(name)) throw new Error(`Invalid subreddit name: ${subreddit}`);
+
+  const pin: StoredPin = {
+    subreddit: name,
+    ...(note?.trim() && { note: note.trim() }),
+    pinnedAt: new Date().toISOString(),
+  };
+  await redis.hSet(CALENDAR_PINS_KEY, { [date]: JSON.stringify(pin) });
+  console.log(`Pinned r/${name} to ${date}`);
+}
+
+export async function unpinDate(date: string): Promise<boolean> {
+  const removed = await redis.hDel(CALENDAR_PINS_KEY, [date]);
+  if (removed > 0) console.log(`Removed calendar pin for ${date}`);
+  return removed > 0;
+}
+
+/**
+ * All pinned dates, sorted by date.
+ */
+export async function getPinnedDays(): Promise<ScheduledDay[]> {
+  const all = await redis.hGetAll(CALENDAR_PINS_KEY);
+  return Object.entries(all)
+    .map(([date, raw]) => {
+      const pin = parsePin(raw);
+      return pin ? toPinnedDay(date, pin) : null;
+    })
+    .filter((d): d is ScheduledDay => d != null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function toPinnedDay(date: string, pin: StoredPin): ScheduledDay {
+  return { date, subreddit: pin.subreddit, pinned: true, ...(pin.note && { note: pin.note }) };
+}
+
+/**
+ * Rotation fallback for an unpinned date (day-of-year modulo the active rotation).
+ * Noon avoids landing on a neighboring day when the date is read in local time.
+ */
+function computedSubredditForDate(date: string, rotation: string[]): string {
+  return getDailySubredditForDate(new Date(`${date}T12:00:00`), rotation);
+}
+
+function resolveDay(date: string, rotation: string[], pin: StoredPin | null): ScheduledDay {
+  if (date === todayDate() && process.env.TEST_SUBREDDIT) {
+    const override = getDailySubreddit(process.env.TEST_SUBREDDIT, rotation);
+    if (override === process.env.TEST_SUBREDDIT) {
+      return { date, subreddit: override, pinned: false };
+    }
+  }
+  if (pin) return toPinnedDay(date, pin);
+  return { date, subreddit: computedSubredditForDate(date, rotation), pinned: false };
+}
+
+/**
+ * The subreddit scheduled for a date: the mod pin if there is one, otherwise the rotation.
+ * TEST_SUBREDDIT (when it's in the rotation) still overrides today, as before.
+ */
+export async function getScheduledDay(date: string = todayDate()): Promise<ScheduledDay> {
+  const [rotation, rawPin] = await Promise.all([
+    getActiveRotation(),
+    redis.hGet(CALENDAR_PINS_KEY, date),
+  ]);
+  return resolveDay(date, rotation, parsePin(rawPin));
+}
+
+/**
+ * Schedule for `days` consecutive dates starting at `fromDate`.
+ */
+export async function getSchedule(fromDate: string, days: number): Promise<ScheduledDay[]> {
+  const [rotation, pins] = await Promise.all([
+    getActiveRotation(),
+    redis.hGetAll(CALENDAR_PINS_KEY),
+  ]);
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(fromDate, i);
+    return resolveDay(date, rotation, parsePin(pins[date]));
+  });
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ContentSafetySettings } from '../../shared/config/contentSafety';
+import { findUnsafeContent, getContentSafetyRules } from './contentSafety';
+
+const stored = vi.hoisted(() => ({ settings: null as string | null }));
+
+vi.mock('@devvit/web/server', () => ({
+  context: {},
+  reddit: {},
+  redis: { get: async () => stored.settings },
+}));
+
+function useSettings(settings: Partial<ContentSafetySettings>) {
+  stored.settings = JSON.stringify(settings);
+}
+
+/** Label of the first rule the texts break in r/test, or null */
+async function unsafeLabel(...texts: string[]): Promise<string | null> {
+  return findUnsafeContent(texts, await getContentSafetyRules('test'))?.label ?? null;
+}
+
+beforeEach(() => {
+  stored.settings = null;
+});
+
+describe('blocked words', () => {
+  beforeEach(() => useSettings({ blockedWords: ['spoon', 'bad idea'] }));
+
+  it('matches whole words in any case', async () => {
+    expect(await unsafeLabel('Hand me the SPOON!')).toBe('word "spoon"');
+    expect(await unsafeLabel('spoon')).toBe('word "spoon"');
+  });
+
+  it("doesn't match inside other words", async () => {
+    expect(await unsafeLabel('A spoonful of sugar', 'Teaspoons', 'spoon2')).toBeNull();
+  });
+
+  it('matches phrases across any whitespace', async () => {
+    expect(await unsafeLabel('What a bad\n  idea')).toBe('word "bad idea"');
+    expect(await unsafeLabel('bad ideas')).toBeNull();
+  });
+
+  it('checks every text', async () => {
+    expect(await unsafeLabel('Clean title', 'A comment with a spoon')).toBe('word "spoon"');
+  });
+
+  it('treats regex characters in words literally', async () => {
+    useSettings({ blockedWords: ['c++'] });
+    expect(await unsafeLabel('I write c++ all day')).toBe('word "c++"');
+    expect(await unsafeLabel('I write c all day')).toBeNull();
+  });
+});
+
+describe('custom patterns', () => {
+  it('matches a bare pattern case-insensitively', async () => {
+    useSettings({ patterns: ['promo\\d+'] });
+    expect(await unsafeLabel('Use code PROMO50')).toBe('pattern promo\\d+');
+  });
+
+  it('uses the flags of a /pattern/flags line, minus global and sticky', async () => {
+    useSettings({ patterns: ['/Promo/g'] });
+    const rules = await getContentSafetyRules('test');
+    expect(findUnsafeContent(['promo'], rules)).toBeNull();
+    // Without the g flag the same text matches every time
+    expect(findUnsafeContent(['Promo'], rules)?.label).toBe('pattern /Promo/g');
+    expect(findUnsafeContent(['Promo'], rules)?.label).toBe('pattern /Promo/g');
+  });
+
+  it('skips a pattern that does not compile', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useSettings({ patterns: ['(unclosed', 'fine'] });
+    expect(await unsafeLabel('(unclosed')).toBeNull();
+    expect(await unsafeLabel('fine')).toBe('pattern fine');
+  });
+});
+
+describe('subreddit overrides', () => {
+  it('drops the words and patterns a subreddit allows and adds its own', async () => {
+    useSettings({
+      blockedWords: ['spoon', 'fork'],
+      patterns: ['knife'],
+      overrides: { test: { blocked: ['ladle'], allowed: ['SPOON', 'knife'] } },
+    });
+    expect(await unsafeLabel('spoon', 'knife')).toBeNull();
+    expect(await unsafeLabel('fork')).toBe('word "fork"');
+    expect(await unsafeLabel('ladle')).toBe('word "ladle"');
+  });
+
+  it('leaves other subreddits alone', async () => {
+    useSettings({
+      blockedWords: ['spoon'],
+      overrides: { other: { blocked: ['ladle'], allowed: ['spoon'] } },
+    });
+    expect(await unsafeLabel('spoon')).toBe('word "spoon"');
+    expect(await unsafeLabel('ladle')).toBeNull();
+  });
+});
+
+describe('personal info', () => {
+  it('is checked even with nothing stored', async () => {
+    expect(await unsafeLabel('Mail me at someone@example.com')).toBe('PII: email');
+  });
+
+  it('matches phone numbers in the usual formats', async () => {
+    for (const phone of ['555-123-4567', '(555) 123-4567', '555.123.4567', '+1 555 123 4567']) {
+      expect(await unsafeLabel(`Call ${phone} now`)).toBe('PII: phone number');
+    }
+  });
+
+  it('matches social security numbers', async () => {
+    expect(await unsafeLabel('Mine is 123-45-6789')).toBe('PII: SSN');
+  });
+
+  it("doesn't flag plain numbers, dates or scores", async () => {
+    expect(
+      await unsafeLabel(
+        'It had 5551234567 views',
+        '1,234,567 upvotes',
+        'Posted 2024-10-19 at 12:30',
+        'Final score 120-98',
+        'Version 1.2.3 of the app',
+        'Tag me @someone'
+      )
+    ).toBeNull();
+  });
+
+  it("doesn't flag longer digit runs that contain a phone-like part", async () => {
+    expect(await unsafeLabel('Order 12555-123-45678')).toBeNull();
+  });
+});
+
+describe('findUnsafeContent', () => {
+  it('returns the first rule broken, in rule order', () => {
+    const rules = [
+      { label: 'first', re: /b/ },
+      { label: 'second', re: /a/ },
+    ];
+    expect(findUnsafeContent(['a', 'b'], rules)?.label).toBe('first');
+    expect(findUnsafeContent(['c'], rules)).toBeNull();
+    expect(findUnsafeContent([], rules)).toBeNull();
+  });
+});
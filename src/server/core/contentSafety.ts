@@ -0,0 +1,150 @@
+import { redis } from '@devvit/web/server';
+import {
+  DEFAULT_CONTENT_SAFETY,
+  type ContentSafetyOverride,
+  type ContentSafetySettings,
+} from '../../shared/config/contentSafety';
+import { isValidSubredditName, normalizeSubredditName } from './rotation';
+
+/**
+ * Mod-edited content-safety lists (see ContentSafetySettings).
+ * JSON ContentSafetySettings
+ */
+const CONTENT_SAFETY_KEY = 'content_safety';
+
+/** A compiled check; `label` names it in logs and rejection reasons */
+export type SafetyRule = { label: string; re: RegExp };
+
+/** Personal info that never belongs in a quiz option, whatever the mod lists say */
+const PII_RULES: readonly SafetyRule[] = [
+  { label: 'PII: email', re: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i },
+  {
+    label: 'PII: phone number',
+    re: /(?<!\d)(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}(?!\d)/,
+  },
+  { label: 'PII: SSN', re: /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/ },
+];
+
+export async function getContentSafetySettings(): Promise<ContentSafetySettings> {
+  const raw = await redis.get(CONTENT_SAFETY_KEY);
+  if (!raw) return DEFAULT_CONTENT_SAFETY;
+  try {
+    return { ...DEFAULT_CONTENT_SAFETY, ...(JSON.parse(raw) as Partial<ContentSafetySettings>) };
+  } catch (error) {
+    console.error('Failed to parse content safety settings:', error);
+    return DEFAULT_CONTENT_SAFETY;
+  }
+}
+
+/**
+ * Replace the content-safety lists. Throws if a pattern isn't a valid regular expression.
+ */
+export async function setContentSafetySettings(settings: ContentSafetySettings): Promise<void> {
+  for (const pattern of settings.patterns) {
+    if (!parsePattern(pattern)) throw new Error(`Invalid pattern: ${pattern}`);
+  }
+  await redis.set(CONTENT_SAFETY_KEY, JSON.stringify(settings));
+  console.log(
+    `Updated content safety: ${settings.blockedWords.length} words, ${settings.patterns.length} patterns, ` +
+      `${Object.keys(settings.overrides).length} subreddit overrides`
+  );
+}
+
+/**
+ * A pattern line as a RegExp (/pattern/flags, or a bare pattern matched case-insensitively),
+ * or null if it doesn't compile
+ */
+function parsePattern(pattern: string): RegExp | null {
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  try {
+    // Global/sticky flags would make test() stateful across texts
+    return literal
+      ? new RegExp(literal[1]!, literal[2]!.replace(/[gy]/g, ''))
+      : new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/** Whole-word, case-insensitive match for a word or phrase */
+function wordRule(word: string): SafetyRule {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return {
+    label: `word "${word}"`,
+    re: new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu'),
+  };
+}
+
+/**
+ * The checks for posts from a subreddit: the global words and patterns minus the ones it
+ * allows, its own blocked words, and the personal-info patterns. Invalid patterns are skipped.
+ */
+export async function getContentSafetyRules(subreddit: string): Promise<SafetyRule[]> {
+  const settings = await getContentSafetySettings();
+  const override = settings.overrides[subreddit.toLowerCase()];
+  const allowed = new Set((override?.allowed ?? []).map((entry) => entry.toLowerCase()));
+
+  const words = [...settings.blockedWords, ...(override?.blocked ?? [])].filter(
+    (word) => !allowed.has(word.toLowerCase())
+  );
+  const patterns = settings.patterns
+    .filter((pattern) => !allowed.has(pattern.toLowerCase()))
+    .flatMap((pattern) => {
+      const re = parsePattern(pattern);
+      if (!re) console.error(`Skipping invalid content safety pattern: ${pattern}`);
+      return re ? [{ label: `pattern ${pattern}`, re }] : [];
+    });
+  return [...words.map(wordRule), ...patterns, ...PII_RULES];
+}
+
+/**
+ * The first rule any of `texts` breaks, or null if they're all clean
+ */
+export function findUnsafeContent(texts: string[], rules: SafetyRule[]): SafetyRule | null {
+  for (const rule of rules) {
+    if (texts.some((text) => rule.re.test(text))) return rule;
+  }
+  return null;
+}
+
+/**
+ * One entry per line for the mod form (blank lines dropped, duplicates removed)
+ */
+export function parseListText(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Parse the mod form's per-subreddit lines, e.g. "AskReddit +blockedword -allowedword".
+ * Phrases can't be written here (entries are space-separated). Throws on a line that doesn't parse.
+ */
+export function parseOverridesText(text: string): Record<string, ContentSafetyOverride> {
+  const overrides: Record<string, ContentSafetyOverride> = {};
+  for (const line of text.split('\n').map((l) => l.trim())) {
+    if (!line) continue;
+    const [rawName, ...entries] = line.split(/\s+/);
+    const name = normalizeSubredditName(rawName ?? '');
+    const valid = entries.length > 0 && entries.every((e) => /^[+-]\S+$/.test(e));
+    if (!isValidSubredditName(name) || !valid) throw new Error(`Couldn't read "${line}"`);
+    const override = (overrides[name.toLowerCase()] ??= { blocked: [], allowed: [] });
+    for (const entry of entries) {
+      (entry.startsWith('+') ? override.blocked : override.allowed).push(entry.slice(1));
+    }
+  }
+  return overrides;
+}
+
+export function formatOverridesText(overrides: Record<string, ContentSafetyOverride>): string {
+  return Object.entries(overrides)
+    .map(([subreddit, { blocked, allowed }]) =>
+      [subreddit, ...blocked.map((w) => `+${w}`), ...allowed.map((w) => `-${w}`)].join(' ')
+    )
+    .join('\n');
+}
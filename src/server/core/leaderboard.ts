@@ -0,0 +1,123 @@
+import { redis } from '@devvit/web/server';
+import type { LeaderboardEntry, LeaderboardResponse } from '../../shared/types/api';
+
+/** Leaderboards live as long as the post metadata and quiz cache (30 days) */
+const LEADERBOARD_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Sorted set scores combine points and time: higher score wins, faster time breaks ties.
+ * Time is stored in whole seconds and capped so it never outweighs a hundredth of a point
+ * (partial credit from upvote guesses and rankings is rounded to hundredths).
+ */
+const TIME_SLOTS = 1_000_000;
+const MAX_TIME_SECONDS = TIME_SLOTS / 100 - 1;
+
+export const DEFAULT_LEADERBOARD_LIMIT = 10;
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+type StoredEntry = {
+  username: string;
+  score: number;
+  totalQuestions: number;
+  timeMs: number | null;
+  completedAt: string;
+};
+
+/**
+ * Sorted set of user IDs for a post's leaderboard.
+ * Format: leaderboard:{YYYY-MM-DD}:{postId} (date from post_meta)
+ */
+function leaderboardKey(date: string, postId: string): string {
+  return `leaderboard:${date}:${postId}`;
+}
+
+/** Hash of user ID -> entry details (username, score, time) for a post's leaderboard */
+function entriesKey(date: string, postId: string): string {
+  return `leaderboard_entries:${date}:${postId}`;
+}
+
+function rankingScore(score: number, timeMs: number | null): number {
+  const seconds = timeMs == null ? MAX_TIME_SECONDS : Math.floor(timeMs / 1000);
+  return score * TIME_SLOTS - Math.min(Math.max(seconds, 0), MAX_TIME_SECONDS);
+}
+
+function parseEntry(raw: string | undefined | null): StoredEntry | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredEntry;
+  } catch {
+    return null;
+  }
+}
+
+function toLeaderboardEntry(rank: number, entry: StoredEntry): LeaderboardEntry {
+  return {
+    rank,
+    username: entry.username,
+    score: entry.score,
+    totalQuestions: entry.totalQuestions,
+    timeMs: entry.timeMs,
+  };
+}
+
+/**
+ * Record a user's first-attempt result. Returns false (and changes nothing) if the user
+ * already has an entry on this post's leaderboard.
+ */
+export async function recordLeaderboardEntry(
+  date: string,
+  postId: string,
+  userId: string,
+  entry: Omit<StoredEntry, 'completedAt'>
+): Promise<boolean> {
+  const key = leaderboardKey(date, postId);
+  const existing = await redis.zScore(key, userId);
+  if (existing !== undefined) return false;
+
+  const stored: StoredEntry = { ...entry, completedAt: new Date().toISOString() };
+  await redis.hSet(entriesKey(date, postId), { [userId]: JSON.stringify(stored) });
+  await redis.zAdd(key, { member: userId, score: rankingScore(entry.score, entry.timeMs) });
+  await redis.expire(key, LEADERBOARD_TTL_SECONDS);
+  await redis.expire(entriesKey(date, postId), LEADERBOARD_TTL_SECONDS);
+  return true;
+}
+
+/**
+ * Top N entries for a post's leaderboard plus the caller's own rank (if they have one).
+ */
+export async function getLeaderboard(
+  date: string,
+  postId: string,
+  limit: number = DEFAULT_LEADERBOARD_LIMIT,
+  userId?: string
+): Promise<LeaderboardResponse> {
+  const key = leaderboardKey(date, postId);
+  const [top, totalPlayers] = await Promise.all([
+    redis.zRange(key, 0, limit - 1, { by: 'rank', reverse: true }),
+    redis.zCard(key),
+  ]);
+
+  const details =
+    top.length > 0
+      ? await redis.hMGet(
+          entriesKey(date, postId),
+          top.map((t) => t.member)
+        )
+      : [];
+  const entries: LeaderboardEntry[] = [];
+  details.forEach((raw, i) => {
+    const entry = parseEntry(raw);
+    if (entry) entries.push(toLeaderboardEntry(i + 1, entry));
+  });
+
+  let me: LeaderboardEntry | null = null;
+  if (userId) {
+    const ascendingRank = await redis.zRank(key, userId);
+    if (ascendingRank !== undefined) {
+      const entry = parseEntry(await redis.hGet(entriesKey(date, postId), userId));
+      if (entry) me = toLeaderboardEntry(totalPlayers - ascendingRank, entry);
+    }
+  }
+
+  return { postId, date, entries, totalPlayers, me };
+}
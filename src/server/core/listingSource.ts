@@ -0,0 +1,123 @@
+import { redis } from '@devvit/web/server';
+import {
+  DEFAULT_LISTING_SOURCE,
+  formatListingSource,
+  normalizeSettleFilter,
+  parseListingSource,
+  type ListingSource,
+  type SettleFilter,
+} from '../../shared/config/listingSource';
+import { isValidSubredditName, normalizeSubredditName } from './rotation';
+
+/**
+ * Per-subreddit listing sources (subreddits not listed use the default).
+ * Hash of subreddit (lowercase) -> short form (see formatListingSource)
+ */
+const LISTING_SOURCES_KEY = 'listing_sources';
+
+/**
+ * Minimum post age and comment count for candidate posts, for every subreddit.
+ * Hash of field (minPostAgeHours, minComments) -> number
+ */
+const SETTLE_FILTER_KEY = 'settle_filter';
+
+export async function getListingSource(
+  subreddit: string
+): Promise<{ source: ListingSource; custom: boolean }> {
+  const raw = await redis.hGet(LISTING_SOURCES_KEY, subreddit.toLowerCase());
+  const source = raw ? parseListingSource(raw) : null;
+  if (raw && !source) console.error(`Ignoring invalid listing source for r/${subreddit}: ${raw}`);
+  return source ? { source, custom: true } : { source: DEFAULT_LISTING_SOURCE, custom: false };
+}
+
+/**
+ * Set a subreddit's listing source, or go back to the default with null.
+ */
+export async function setListingSource(
+  subreddit: string,
+  source: ListingSource | null
+): Promise<ListingSource> {
+  const key = subreddit.toLowerCase();
+  if (source == null) {
+    await redis.hDel(LISTING_SOURCES_KEY, [key]);
+    console.log(`Reset listing source for r/${subreddit} to default`);
+    return DEFAULT_LISTING_SOURCE;
+  }
+  await redis.hSet(LISTING_SOURCES_KEY, { [key]: formatListingSource(source) });
+  console.log(`Set listing source for r/${subreddit} to ${formatListingSource(source)}`);
+  return source;
+}
+
+/**
+ * Every subreddit with its own listing source, by (lowercase) name
+ */
+export async function getCustomListingSources(): Promise<Record<string, ListingSource>> {
+  const raw = await redis.hGetAll(LISTING_SOURCES_KEY);
+  const sources: Record<string, ListingSource> = {};
+  for (const [subreddit, value] of Object.entries(raw)) {
+    const source = parseListingSource(value);
+    if (source) sources[subreddit] = source;
+  }
+  return sources;
+}
+
+/**
+ * Replace every custom listing source (the mod form edits them all at once)
+ */
+export async function setCustomListingSources(
+  sources: Record<string, ListingSource>
+): Promise<void> {
+  await redis.del(LISTING_SOURCES_KEY);
+  const entries = Object.entries(sources).map(([subreddit, source]) => [
+    subreddit.toLowerCase(),
+    formatListingSource(source),
+  ]);
+  if (entries.length > 0) await redis.hSet(LISTING_SOURCES_KEY, Object.fromEntries(entries));
+  console.log(`Updated listing sources: ${entries.length} custom`);
+}
+
+/**
+ * Parse the mod form's "subreddit source" lines (e.g. "AskReddit top-week"). Blank lines are
+ * ignored; throws on a line that doesn't parse.
+ */
+export function parseListingSourcesText(text: string): Record<string, ListingSource> {
+  const sources: Record<string, ListingSource> = {};
+  for (const line of text.split('\n').map((l) => l.trim())) {
+    if (!line) continue;
+    const [rawName, value, ...rest] = line.split(/\s+/);
+    const name = normalizeSubredditName(rawName ?? '');
+    const source = value && rest.length === 0 ? parseListingSource(value) : null;
+    if (!isValidSubredditName(name) || !source) throw new Error(`Couldn't read "${line}"`);
+    sources[name.toLowerCase()] = source;
+  }
+  return sources;
+}
+
+export function formatListingSourcesText(sources: Record<string, ListingSource>): string {
+  return Object.entries(sources)
+    .map(([subreddit, source]) => `${subreddit} ${formatListingSource(source)}`)
+    .join('\n');
+}
+
+export async function getSettleFilter(): Promise<SettleFilter> {
+  const raw = await redis.hGetAll(SETTLE_FILTER_KEY);
+  return normalizeSettleFilter({
+    ...(raw.minPostAgeHours != null && { minPostAgeHours: Number(raw.minPostAgeHours) }),
+    ...(raw.minComments != null && { minComments: Number(raw.minComments) }),
+  });
+}
+
+/**
+ * Update the settle filter (fields left out keep their current value). Returns the saved filter.
+ */
+export async function setSettleFilter(filter: Partial<SettleFilter>): Promise<SettleFilter> {
+  const saved = normalizeSettleFilter({ ...(await getSettleFilter()), ...filter });
+  await redis.hSet(SETTLE_FILTER_KEY, {
+    minPostAgeHours: saved.minPostAgeHours.toString(),
+    minComments: saved.minComments.toString(),
+  });
+  console.log(
+    `Set settle filter: posts at least ${saved.minPostAgeHours}h old with ${saved.minComments}+ comments`
+  );
+  return saved;
+}
@@ -0,0 +1,76 @@
+import { redis } from '@devvit/web/server';
+import type { AnswerDriftResponse, QuizQuestion } from '../../shared/types/api';
+import { fetchPostComments, subredditFromPermalink } from './quiz';
+
+/** Live scores are cached briefly so a burst of players revealing the same question hits Reddit once */
+const LIVE_SCORES_TTL_SECONDS = 5 * 60;
+
+/** Comments fetched per thread: enough to still find options that have slipped down */
+const LIVE_COMMENT_LIMIT = 25;
+
+type LiveScores = {
+  /** Upvotes by comment ID */
+  ups: Record<string, number>;
+  checkedAt: string; // ISO timestamp
+};
+
+/**
+ * A thread's current comment scores, shared by every question made from it.
+ * Format: live_scores:{postId}
+ */
+function liveScoresKey(postId: string): string {
+  return `live_scores:${postId}`;
+}
+
+/**
+ * Current upvotes for a thread's top comments, from the short-lived cache or fetched fresh
+ */
+async function getLiveScores(question: QuizQuestion): Promise<LiveScores> {
+  const { postId } = question;
+  const raw = await redis.get(liveScoresKey(postId));
+  if (raw) {
+    try {
+      return JSON.parse(raw) as LiveScores;
+    } catch (error) {
+      console.error(`Failed to parse live scores for post ${postId}:`, error);
+    }
+  }
+
+  const subreddit = subredditFromPermalink(question.permalink) ?? '';
+  const comments = await fetchPostComments(subreddit, postId, LIVE_COMMENT_LIMIT);
+  const scores: LiveScores = {
+    ups: Object.fromEntries(comments.map((c) => [c.id, c.ups])),
+    checkedAt: new Date().toISOString(),
+  };
+  await redis.set(liveScoresKey(postId), JSON.stringify(scores), {
+    expiration: new Date(Date.now() + LIVE_SCORES_TTL_SECONDS * 1000),
+  });
+  return scores;
+}
+
+/**
+ * Compare a question's options as scored when the quiz was made with their upvotes now, so
+ * players who open the thread can see why its top comment may differ from the answer.
+ * Returns null for questions without comments (which-subreddit).
+ */
+export async function getAnswerDrift(question: QuizQuestion): Promise<AnswerDriftResponse | null> {
+  const topAtQuiz = question.comments[0];
+  if (!topAtQuiz) return null;
+
+  const { ups, checkedAt } = await getLiveScores(question);
+  const comments = question.comments.map((c) => ({
+    id: c.id,
+    upsAtQuiz: c.ups,
+    upsNow: ups[c.id] ?? null,
+  }));
+  // Ties keep the quiz's order, so only a real overtake counts as a change
+  const topNow = comments.reduce((best, c) => ((c.upsNow ?? 0) > (best.upsNow ?? 0) ? c : best));
+  return {
+    questionId: question.postId,
+    comments,
+    topAtQuizId: topAtQuiz.id,
+    topNowId: topNow.id,
+    changed: topNow.id !== topAtQuiz.id,
+    checkedAt,
+  };
+}
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostQuizSnapshot, QuizQuestion } from '../../shared/types/api';
+import { createPost } from './post';
+import { fetchQuizData, getReplacementQuestion, recheckCommentLeaders } from './quiz';
+
+const { store, submitCustomPost, failingKeys } = vi.hoisted(() => ({
+  store: new Map<string, string>(),
+  submitCustomPost: vi.fn(),
+  /** Key prefixes whose writes fail */
+  failingKeys: [] as string[],
+}));
+
+vi.mock('@devvit/web/server', () => ({
+  context: {},
+  reddit: { submitCustomPost, approve: async () => {} },
+  redis: {
+    get: async (key: string) => store.get(key),
+    set: async (key: string, value: string) => {
+      if (failingKeys.some((prefix) => key.startsWith(prefix))) throw new Error('Redis down');
+      store.set(key, value);
+      return 'OK';
+    },
+    del: async (...keys: string[]) => keys.forEach((key) => store.delete(key)),
+    hGetAll: async () => ({}),
+  },
+}));
+
+vi.mock('./quiz', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./quiz')>()),
+  fetchQuizData: vi.fn(),
+  getReplacementQuestion: vi.fn(),
+  recheckCommentLeaders: vi.fn(),
+}));
+
+function question(postId: string): QuizQuestion {
+  return {
+    postId,
+    title: `Post ${postId}`,
+    author: 'op',
+    permalink: `/r/test/comments/${postId}`,
+    comments: [
+      { id: `${postId}-top`, body: 'Top', ups: 300, author: null },
+      { id: `${postId}-next`, body: 'Next', ups: 100, author: null },
+    ],
+  };
+}
+
+const QUIZ = ['a', 'b', 'c', 'd', 'e'].map(question);
+
+/** Recheck that reports `changed` as having a new top comment */
+function leadersChanged(changed: string[]) {
+  vi.mocked(recheckCommentLeaders).mockImplementation(async (_subreddit, quiz) => ({
+    quiz,
+    changedPostIds: changed,
+  }));
+}
+
+function storedSnapshot(postId: string): PostQuizSnapshot | null {
+  const raw = store.get(`post_quiz:${postId}`);
+  return raw ? (JSON.parse(raw) as PostQuizSnapshot) : null;
+}
+
+beforeEach(() => {
+  store.clear();
+  failingKeys.length = 0;
+  vi.mocked(fetchQuizData).mockResolvedValue(QUIZ);
+  vi.mocked(getReplacementQuestion).mockResolvedValue(null);
+  submitCustomPost.mockReset();
+  submitCustomPost.mockResolvedValue({ id: 't3_new', remove: vi.fn() });
+});
+
+describe('createPost after rechecking comment leaders', () => {
+  it('freezes the full quiz when no leader changed', async () => {
+    leadersChanged([]);
+    await createPost('test');
+    expect(storedSnapshot('t3_new')?.quiz.map((q) => q.postId)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('swaps a question whose leader changed for a replacement', async () => {
+    leadersChanged(['b']);
+    vi.mocked(getReplacementQuestion).mockResolvedValue(question('f'));
+    await createPost('test');
+    const snapshot = storedSnapshot('t3_new');
+    expect(snapshot?.quiz.map((q) => q.postId)).toEqual(['a', 'f', 'c', 'd', 'e']);
+    expect(snapshot?.replacements).toMatchObject([
+      { originalPostId: 'b', replacementPostId: 'f', reason: 'leader-changed' },
+    ]);
+  });
+
+  it("doesn't post a short quiz when a changed question can't be replaced", async () => {
+    leadersChanged(['b']);
+    await expect(createPost('test')).rejects.toThrow(
+      'Could not find 5 qualifying questions for r/test'
+    );
+    expect(submitCustomPost).not.toHaveBeenCalled();
+    expect(storedSnapshot('t3_new')).toBeNull();
+  });
+
+  it("doesn't post an empty quiz when every leader changed", async () => {
+    leadersChanged(['a', 'b', 'c', 'd', 'e']);
+    await expect(createPost('test')).rejects.toThrow('Only 0 kept their top comment');
+    expect(submitCustomPost).not.toHaveBeenCalled();
+  });
+});
+
+describe('createPost storing the quiz', () => {
+  it('stores the snapshot and metadata for the new post', async () => {
+    leadersChanged([]);
+    await createPost('test');
+    expect(storedSnapshot('t3_new')).toMatchObject({ subreddit: 'test' });
+    expect(store.has('post_meta:t3_new')).toBe(true);
+  });
+
+  it('takes the post down if its quiz could not be stored', async () => {
+    leadersChanged([]);
+    const remove = vi.fn();
+    submitCustomPost.mockResolvedValue({ id: 't3_new', remove });
+    failingKeys.push('post_quiz:');
+    await expect(createPost('test')).rejects.toThrow('Redis down');
+    expect(remove).toHaveBeenCalled();
+  });
+});
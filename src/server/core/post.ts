@@ -1,18 +1,206 @@
 import { reddit, redis } from '@devvit/web/server';
-import { getDailySubreddit, type ApprovedSubreddit } from '../../shared/config/subreddits';
+import type { PostQuizSnapshot, QuestionReplacement, QuizQuestion } from '../../shared/types/api';
+import {
+  normalizeQuizConfig,
+  QUIZ_PRESETS,
+  type QuizConfig,
+  type QuizPreset,
+} from '../../shared/config/quiz';
+import { getScheduledDay, todayDate } from './calendar';
+import { getPreparedQuiz } from './preparedQuiz';
+import { fetchQuizData } from './quiz';
+import {
+  applyQuestionReplacements,
+  cacheQuiz,
+  getCachedQuiz,
+  getQuizReplacements,
+  replaceFlaggedQuestions,
+  replaceUnsettledQuestions,
+} from './quizCache';
+import { getBannedPostIds } from './reports';
 
-export const createPost = async (subreddit?: ApprovedSubreddit) => {
-  // Use provided subreddit or get today's subreddit
-  const dailySubreddit = subreddit || getDailySubreddit(process.env.TEST_SUBREDDIT);
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+export type PostMeta = {
+  date: string;
+  subreddit: string;
+  createdAt?: string;
+  /** Quiz config chosen at creation; missing on older posts (use the default) */
+  config?: QuizConfig;
+};
+
+/**
+ * Load the date/subreddit a post was created for (post_meta:{postId}).
+ * Returns null if the post has no metadata or it can't be parsed.
+ */
+export async function getPostMeta(postId: string): Promise<PostMeta | null> {
+  const postMetaData = await redis.get(`post_meta:${postId}`);
+  if (!postMetaData) return null;
+  try {
+    return JSON.parse(postMetaData) as PostMeta;
+  } catch (error) {
+    console.error(`Failed to parse post metadata for ${postId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The quiz a post was created with. Stored without expiry so the post keeps its questions
+ * after the 30-day quiz cache and post_meta expire.
+ * Format: post_quiz:{postId}
+ */
+function postQuizKey(postId: string): string {
+  return `post_quiz:${postId}`;
+}
+
+export async function getPostQuiz(postId: string): Promise<PostQuizSnapshot | null> {
+  const raw = await redis.get(postQuizKey(postId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PostQuizSnapshot;
+  } catch (error) {
+    console.error(`Failed to parse quiz snapshot for post ${postId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The quiz a post serves and its config: the frozen snapshot, or for older posts without one
+ * the cached quiz for the date/subreddit in post_meta. Null if the post isn't a quiz post
+ * (no snapshot or post_meta), so answers and scores can't be recorded under made-up post IDs.
+ */
+export async function getServedQuiz(
+  postId: string
+): Promise<{ quiz: QuizQuestion[]; config: QuizConfig } | null> {
+  const snapshot = await getPostQuiz(postId);
+  if (snapshot) return { quiz: snapshot.quiz, config: normalizeQuizConfig(snapshot.config) };
+  const meta = await getPostMeta(postId);
+  if (!meta) return null;
+  const config = normalizeQuizConfig(meta.config);
+  const quiz = await getCachedQuiz(meta.subreddit, meta.date, config);
+  return { quiz: quiz ?? [], config };
+}
+
+/**
+ * Swap replaced/banned questions out of a post's snapshot and persist the swaps, so the
+ * post keeps serving one stable set. Returns the (possibly updated) quiz.
+ */
+export async function applyPostQuizReplacements(
+  postId: string,
+  snapshot: PostQuizSnapshot
+): Promise<QuizQuestion[]> {
+  const { quiz, replacements } = await replaceFlaggedQuestions(
+    snapshot.subreddit,
+    snapshot.quiz,
+    snapshot.replacements,
+    snapshot.config
+  );
+  if (replacements.length === 0) return quiz;
+
+  // Another request may have replaced the same questions while we fetched; keep its set
+  const latest = await getPostQuiz(postId);
+  if (latest && replacements.some((r) => !latest.quiz.some((q) => q.postId === r.originalPostId))) {
+    return latest.quiz;
+  }
+
+  const updated: PostQuizSnapshot = {
+    ...snapshot,
+    quiz,
+    replacements: [...snapshot.replacements, ...replacements],
+  };
+  await redis.set(postQuizKey(postId), JSON.stringify(updated));
+  console.log(`Replaced ${replacements.length} question(s) in the quiz for post ${postId}`);
+  return quiz;
+}
+
+/**
+ * The day's quiz for a subreddit: the cached one if there is one, otherwise fetched and cached.
+ * It may have been prepared hours ago, so comment scores are rechecked and questions whose
+ * top comment changed since are swapped out (returned as replacements for the snapshot).
+ * Throws if the subreddit can't produce a full quiz, including when questions whose top
+ * comment changed couldn't be replaced.
+ */
+async function buildQuiz(
+  subreddit: string,
+  date: string,
+  config: QuizConfig
+): Promise<{ quiz: QuizQuestion[]; replacements: QuestionReplacement[] }> {
+  let quiz = await getCachedQuiz(subreddit, date, config);
+  if (!quiz || quiz.length === 0) {
+    quiz = await fetchQuizData(subreddit, config, await getBannedPostIds());
+    await cacheQuiz(subreddit, quiz, date, config);
+  }
+  const current = await applyQuestionReplacements(subreddit, quiz, date, config);
+  const previous = await getQuizReplacements(subreddit, date, config);
+  const rechecked = await replaceUnsettledQuestions(subreddit, current, previous, config);
+  if (rechecked.quiz.length < config.questionsPerQuiz) {
+    throw new Error(
+      `Could not find ${config.questionsPerQuiz} qualifying questions for r/${subreddit}. Only ${rechecked.quiz.length} kept their top comment when rechecked and no replacements were found.`
+    );
+  }
+  return rechecked;
+}
+
+/** What players do in each kind of question, for the splash screen */
+const QUESTION_MIX_PHRASES = [
+  ['upvoteGuessQuestions', 'guess upvotes'],
+  ['rankCommentsQuestions', 'rank comments'],
+  ['whichSubredditQuestions', 'name the subreddit'],
+  ['guessTitleQuestions', 'guess titles'],
+] as const;
+
+/**
+ * One line describing a quiz for its splash screen, naming its mix of question types
+ */
+function describeQuiz(config: QuizConfig, subreddit: string): string {
+  const extras = QUESTION_MIX_PHRASES.filter(([field]) => config[field] > 0).map(
+    ([, phrase]) => phrase
+  );
+  if (extras.length === 0) {
+    return `Guess the top comment on ${config.questionsPerQuiz} recent r/${subreddit} posts.`;
+  }
+  const topCommentQuestions =
+    config.questionsPerQuiz - QUESTION_MIX_PHRASES.reduce((sum, [field]) => sum + config[field], 0);
+  const phrases = [...(topCommentQuestions > 0 ? ['pick top comments'] : []), ...extras];
+  const last = phrases.pop();
+  const list = phrases.length > 0 ? `${phrases.join(', ')} and ${last}` : last;
+  return `${config.questionsPerQuiz} questions on r/${subreddit}: ${list}.`;
+}
+
+export const createPost = async (subreddit?: string, preset: QuizPreset = 'standard') => {
+  // Use provided subreddit, else the one today's quiz was prepared from (it may have fallen
+  // back from the scheduled one), else today's subreddit from the calendar (pin or rotation)
+  const today = todayDate();
+  const dailySubreddit =
+    subreddit || (await getPreparedQuiz(today))?.subreddit || (await getScheduledDay()).subreddit;
+  const { label, config } = QUIZ_PRESETS[preset];
+
+  // Build the quiz before submitting so a subreddit that can't produce one doesn't leave an empty post
+  const { quiz, replacements } = await buildQuiz(dailySubreddit, today, config);
+  if (quiz.length !== config.questionsPerQuiz) {
+    throw new Error(
+      `Built ${quiz.length} of ${config.questionsPerQuiz} questions for r/${dailySubreddit}; not posting a partial quiz`
+    );
+  }
+
+  // Post metadata (date, subreddit and quiz config) so we can load the correct quiz later,
+  // and the frozen quiz so the post always serves these questions, whatever happens to the cache
+  const createdAt = new Date().toISOString();
+  const postMeta: PostMeta = { date: today, subreddit: dailySubreddit, createdAt, config };
+  const snapshot: PostQuizSnapshot = {
+    subreddit: dailySubreddit,
+    date: today,
+    config,
+    quiz,
+    replacements,
+    createdAt,
+  };
 
   const post = await reddit.submitCustomPost({
-    title: `How Hivemind r/ You? - Today's Challenge: r/${dailySubreddit}`,
+    title: `How Hivemind r/ You? - ${label}: r/${dailySubreddit}`,
     entry: 'game',
     splash: {
       appDisplayName: 'How Hivemind r/ You?',
-      heading: "Today's Challenge",
-      description: `Guess the top comment on recent r/${dailySubreddit} posts. Tap to play.`,
+      heading: label,
+      description: `${describeQuiz(config, dailySubreddit)} Tap to play.`,
       buttonLabel: 'Play now',
       entryUri: 'game.html',
       backgroundUri: 'hivemind-pattern.png',
@@ -20,6 +208,23 @@ export const createPost = async (subreddit?: ApprovedSubreddit) => {
     },
   });
 
+  // Store both right away: a post without them can't serve its quiz, so take it down instead
+  // Key format: post_meta:{postId} (30 days, same as quiz cache); post_quiz:{postId}
+  try {
+    const expiration = new Date();
+    expiration.setDate(expiration.getDate() + 30);
+    await redis.set(postQuizKey(post.id), JSON.stringify(snapshot));
+    await redis.set(`post_meta:${post.id}`, JSON.stringify(postMeta), { expiration });
+  } catch (error) {
+    console.error(`Failed to store the quiz for post ${post.id}; removing the post:`, error);
+    await post.remove();
+    throw error;
+  }
+
+  console.log(
+    `Stored post metadata for post ${post.id}: date=${today}, subreddit=${dailySubreddit}, preset=${preset}`
+  );
+
   // Auto-approve the post so it doesn't require manual moderation
   // This ensures daily posts appear immediately without mod intervention
   try {
@@ -31,24 +236,5 @@ export const createPost = async (subreddit?: ApprovedSubreddit) => {
     // Post will still be created, just may need manual approval
   }
 
-  // Store post metadata (date and subreddit) so we can load the correct quiz later
-  // Key format: post_meta:{postId}
-  // This allows old posts to load their original quiz
-  const postMetaKey = `post_meta:${post.id}`;
-  const postMeta = {
-    date: today,
-    subreddit: dailySubreddit,
-    createdAt: new Date().toISOString(),
-  };
-
-  // Store for 30 days (same as quiz cache)
-  const expiration = new Date();
-  expiration.setDate(expiration.getDate() + 30);
-  await redis.set(postMetaKey, JSON.stringify(postMeta), { expiration });
-
-  console.log(
-    `Stored post metadata for post ${post.id}: date=${today}, subreddit=${dailySubreddit}`
-  );
-
   return post;
 };
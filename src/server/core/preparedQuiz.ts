@@ -0,0 +1,96 @@
+import { redis } from '@devvit/web/server';
+import type { PreparedQuiz } from '../../shared/types/api';
+import { DEFAULT_QUIZ_CONFIG } from '../../shared/config/quiz';
+import { getSubredditsInRotationOrder } from '../../shared/config/subreddits';
+import { getScheduledDay } from './calendar';
+import { fetchQuizData } from './quiz';
+import { cacheQuiz, getCachedQuiz } from './quizCache';
+import { getBannedPostIds } from './reports';
+import { getActiveRotation } from './rotation';
+import { addSubredditToSkipList, getSkipReason, isSubredditSkipped } from './skipList';
+
+/** Prepared quizzes are only needed until the day's post is published */
+const PREPARED_QUIZ_TTL_DAYS = 7;
+
+/**
+ * Which subreddit's quiz was built for a date, so the daily post is named after it.
+ * Format: prepared_quiz:{YYYY-MM-DD}
+ */
+function preparedQuizKey(date: string): string {
+  return `prepared_quiz:${date}`;
+}
+
+export async function getPreparedQuiz(date: string): Promise<PreparedQuiz | null> {
+  const raw = await redis.get(preparedQuizKey(date));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PreparedQuiz;
+  } catch (error) {
+    console.error(`Failed to parse prepared quiz for ${date}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build and cache the standard quiz for a date ahead of time. Tries the scheduled subreddit,
+ * then the rotation in order, skipping subreddits that are skipped or fail to produce a full
+ * quiz (unavailable ones are added to the skip list). An already-cached full quiz is reused.
+ * Throws if no subreddit produces a quiz.
+ */
+export async function prepareQuizForDate(date: string): Promise<PreparedQuiz> {
+  const [scheduled, rotation, bannedIds] = await Promise.all([
+    getScheduledDay(date),
+    getActiveRotation(),
+    getBannedPostIds(),
+  ]);
+  const config = DEFAULT_QUIZ_CONFIG;
+  const candidates = [
+    scheduled.subreddit,
+    ...getSubredditsInRotationOrder(rotation, new Date(`${date}T12:00:00`)).filter(
+      (c) => c !== scheduled.subreddit
+    ),
+  ];
+  const failures: PreparedQuiz['failures'] = [];
+
+  for (const candidate of candidates) {
+    if (await isSubredditSkipped(candidate)) continue;
+
+    let questionCount = (await getCachedQuiz(candidate, date, config))?.length ?? 0;
+    if (questionCount < config.questionsPerQuiz) {
+      try {
+        // Throws unless it finds config.questionsPerQuiz qualifying questions
+        const quiz = await fetchQuizData(candidate, config, bannedIds);
+        await cacheQuiz(candidate, quiz, date, config);
+        questionCount = quiz.length;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to prepare quiz for r/${candidate} (${date}): ${errorMessage}`);
+        failures.push({ subreddit: candidate, error: errorMessage });
+        const skipReason = getSkipReason(errorMessage);
+        if (skipReason) await addSubredditToSkipList(candidate, skipReason, errorMessage);
+        continue;
+      }
+    }
+
+    const prepared: PreparedQuiz = {
+      date,
+      subreddit: candidate,
+      scheduledSubreddit: scheduled.subreddit,
+      questionCount,
+      preparedAt: new Date().toISOString(),
+      failures,
+    };
+    const expiration = new Date();
+    expiration.setDate(expiration.getDate() + PREPARED_QUIZ_TTL_DAYS);
+    await redis.set(preparedQuizKey(date), JSON.stringify(prepared), { expiration });
+    console.log(
+      `Prepared quiz for ${date}: r/${candidate}` +
+        (candidate !== scheduled.subreddit ? ` (fell back from r/${scheduled.subreddit})` : '')
+    );
+    return prepared;
+  }
+
+  throw new Error(
+    `Could not prepare a quiz for ${date}; tried ${failures.map((f) => `r/${f.subreddit}`).join(', ') || 'no available subreddits'}`
+  );
+}
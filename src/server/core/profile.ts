@@ -0,0 +1,111 @@
+import { redis } from '@devvit/web/server';
+import type { PlayerProfile } from '../../shared/types/api';
+import { addDays, todayDate } from './calendar';
+
+type StoredProfile = Omit<PlayerProfile, 'subreddits'> & {
+  subreddits: Record<string, { gamesPlayed: number; correct: number; totalQuestions: number }>;
+};
+
+export type GameResult = {
+  /** Date of the daily post (post_meta date), YYYY-MM-DD */
+  date: string;
+  subreddit: string;
+  score: number;
+  totalQuestions: number;
+};
+
+function profileKey(userId: string): string {
+  return `profile:${userId}`;
+}
+
+function emptyProfile(): StoredProfile {
+  return {
+    gamesPlayed: 0,
+    correct: 0,
+    totalQuestions: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    lastStreakDate: null,
+    bestScore: null,
+    subreddits: {},
+  };
+}
+
+async function getStoredProfile(userId: string): Promise<StoredProfile> {
+  const raw = await redis.get(profileKey(userId));
+  if (!raw) return emptyProfile();
+  try {
+    return { ...emptyProfile(), ...(JSON.parse(raw) as Partial<StoredProfile>) };
+  } catch (error) {
+    console.error(`Failed to parse profile for ${userId}:`, error);
+    return emptyProfile();
+  }
+}
+
+function isBetterScore(result: GameResult, best: StoredProfile['bestScore']): boolean {
+  if (!best) return true;
+  const ratio = result.totalQuestions > 0 ? result.score / result.totalQuestions : 0;
+  const bestRatio = best.totalQuestions > 0 ? best.score / best.totalQuestions : 0;
+  return ratio > bestRatio || (ratio === bestRatio && result.score > best.score);
+}
+
+/**
+ * Record a scored game in the user's lifetime stats.
+ * Only a post played on its own date extends the daily streak; historical posts
+ * (older daily posts opened later) count toward stats but never toward the streak.
+ */
+export async function recordGameResult(userId: string, result: GameResult): Promise<void> {
+  const profile = await getStoredProfile(userId);
+
+  profile.gamesPlayed += 1;
+  profile.correct += result.score;
+  profile.totalQuestions += result.totalQuestions;
+
+  const subStats = profile.subreddits[result.subreddit] ?? {
+    gamesPlayed: 0,
+    correct: 0,
+    totalQuestions: 0,
+  };
+  subStats.gamesPlayed += 1;
+  subStats.correct += result.score;
+  subStats.totalQuestions += result.totalQuestions;
+  profile.subreddits[result.subreddit] = subStats;
+
+  if (isBetterScore(result, profile.bestScore)) {
+    profile.bestScore = {
+      score: result.score,
+      totalQuestions: result.totalQuestions,
+      subreddit: result.subreddit,
+      date: result.date,
+    };
+  }
+
+  const isTodaysPost = result.date === todayDate();
+  if (isTodaysPost && profile.lastStreakDate !== result.date) {
+    profile.currentStreak =
+      profile.lastStreakDate === addDays(result.date, -1) ? profile.currentStreak + 1 : 1;
+    profile.longestStreak = Math.max(profile.longestStreak, profile.currentStreak);
+    profile.lastStreakDate = result.date;
+  }
+
+  await redis.set(profileKey(userId), JSON.stringify(profile));
+}
+
+/**
+ * Get a user's profile. The current streak reads as 0 once a day has been missed,
+ * even though the stored value is only reset on the next played day.
+ */
+export async function getPlayerProfile(userId: string): Promise<PlayerProfile> {
+  const { subreddits, ...profile } = await getStoredProfile(userId);
+  const today = todayDate();
+  const streakAlive =
+    profile.lastStreakDate === today || profile.lastStreakDate === addDays(today, -1);
+
+  return {
+    ...profile,
+    currentStreak: streakAlive ? profile.currentStreak : 0,
+    subreddits: Object.entries(subreddits)
+      .map(([subreddit, stats]) => ({ subreddit, ...stats }))
+      .sort((a, b) => b.gamesPlayed - a.gamesPlayed),
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+import { blendDifficulty } from './questionStats';
+
+vi.mock('@devvit/web/server', () => ({ context: {}, reddit: {}, redis: {} }));
+
+/** Stats where every player got the question wrong */
+const allMissed = (attempts: number) => ({ attempts, correct: 0, picks: {} });
+
+describe('blendDifficulty', () => {
+  it('keeps the upvote-margin difficulty until someone answers', () => {
+    expect(blendDifficulty(0.2, allMissed(0))).toBe(0.2);
+  });
+
+  it('weighs player accuracy as much as the margin at 20 answers', () => {
+    expect(blendDifficulty(0.2, allMissed(20))).toBe(0.6);
+    expect(blendDifficulty(0.2, { attempts: 20, correct: 20, picks: {} })).toBe(0.1);
+  });
+
+  it('trusts player accuracy more as answers accumulate', () => {
+    // Accuracy weight is attempts / (attempts + 20)
+    expect(blendDifficulty(0.2, allMissed(5))).toBe(0.36);
+    expect(blendDifficulty(0.2, allMissed(60))).toBe(0.8);
+    expect(blendDifficulty(0.2, allMissed(180))).toBe(0.92);
+  });
+
+  it('uses the share of players who missed', () => {
+    // Half missed, at half weight
+    expect(blendDifficulty(0.2, { attempts: 20, correct: 10, picks: {} })).toBe(0.35);
+  });
+});
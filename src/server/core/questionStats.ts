@@ -0,0 +1,158 @@
+import { redis } from '@devvit/web/server';
+import { getQuestionKeyId } from '../../shared/config/questionTypes';
+import type { QuestionAccuracy, QuizQuestion } from '../../shared/types/api';
+import { subredditFromPermalink } from './quiz';
+
+/** Stats outlive the 30-day quiz cache so a question reused later keeps its history */
+const QUESTION_STATS_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Recorded (non-practice) picks needed before player accuracy counts as much as the
+ * upvote margin toward a question's difficulty
+ */
+const ACCURACY_HALF_WEIGHT_ANSWERS = 20;
+
+/** Hash field prefix for per-option pick counts */
+const PICK_FIELD_PREFIX = 'pick:';
+
+/**
+ * Player results per question (by getQuestionKeyId, so upvote guesses are tallied apart).
+ * Format: question_stats:{questionId} (hash: attempts, correct, pick:{commentId or bucket})
+ */
+function questionStatsKey(questionId: string): string {
+  return `question_stats:${questionId}`;
+}
+
+/**
+ * Answered questions per subreddit, scored by when they were first answered (ms).
+ * Format: subreddit_questions:{subreddit}
+ */
+function subredditQuestionsKey(subreddit: string): string {
+  return `subreddit_questions:${subreddit.toLowerCase()}`;
+}
+
+/**
+ * Titles of answered questions per subreddit, so rankings outlive the answer keys.
+ * Format: subreddit_question_titles:{subreddit} (hash of questionId -> title)
+ */
+function subredditTitlesKey(subreddit: string): string {
+  return `subreddit_question_titles:${subreddit.toLowerCase()}`;
+}
+
+export type QuestionStats = {
+  attempts: number;
+  correct: number;
+  /** Recorded picks per comment ID (bucket index for upvote guesses) */
+  picks: Record<string, number>;
+};
+
+/**
+ * Count a recorded first pick (comment ID, bucket index for upvote guesses, or the comment
+ * ranked first for rankings) toward the
+ * question's tallies and index the question under its subreddit for the hardest/easiest
+ * rankings. Only full points count as correct; a null pick (timed out) is just a miss.
+ */
+export async function recordQuestionResult(
+  question: QuizQuestion,
+  pick: string | null,
+  points: number
+): Promise<void> {
+  const questionId = getQuestionKeyId(question.postId, question.type);
+  const key = questionStatsKey(questionId);
+  try {
+    await redis.hIncrBy(key, 'attempts', 1);
+    if (points === 1) await redis.hIncrBy(key, 'correct', 1);
+    if (pick != null) await redis.hIncrBy(key, `${PICK_FIELD_PREFIX}${pick}`, 1);
+    await redis.expire(key, QUESTION_STATS_TTL_SECONDS);
+
+    const subreddit = subredditFromPermalink(question.permalink);
+    if (subreddit) {
+      const indexKey = subredditQuestionsKey(subreddit);
+      if ((await redis.zScore(indexKey, questionId)) == null) {
+        await redis.zAdd(indexKey, { member: questionId, score: Date.now() });
+        await redis.hSet(subredditTitlesKey(subreddit), { [questionId]: question.title });
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to record result for question ${questionId}:`, error);
+  }
+}
+
+export async function getQuestionStats(questionId: string): Promise<QuestionStats> {
+  const raw = await redis.hGetAll(questionStatsKey(questionId));
+  const picks: Record<string, number> = {};
+  for (const [field, value] of Object.entries(raw)) {
+    if (field.startsWith(PICK_FIELD_PREFIX)) {
+      picks[field.slice(PICK_FIELD_PREFIX.length)] = parseInt(value, 10) || 0;
+    }
+  }
+  return {
+    attempts: parseInt(raw.attempts ?? '0', 10) || 0,
+    correct: parseInt(raw.correct ?? '0', 10) || 0,
+    picks,
+  };
+}
+
+/**
+ * Blend the generation-time difficulty with the share of players who got it wrong,
+ * trusting accuracy more as answers accumulate.
+ */
+export function blendDifficulty(marginDifficulty: number, stats: QuestionStats): number {
+  if (stats.attempts === 0) return marginDifficulty;
+  const accuracyWeight = stats.attempts / (stats.attempts + ACCURACY_HALF_WEIGHT_ANSWERS);
+  const missRate = 1 - stats.correct / stats.attempts;
+  const blended = (1 - accuracyWeight) * marginDifficulty + accuracyWeight * missRate;
+  return Math.round(blended * 100) / 100;
+}
+
+/**
+ * Questions with difficulty refined by player accuracy. Questions cached before difficulty
+ * existed are left without one.
+ */
+export async function withPlayerDifficulty(quiz: QuizQuestion[]): Promise<QuizQuestion[]> {
+  try {
+    const stats = await Promise.all(
+      quiz.map((q) => getQuestionStats(getQuestionKeyId(q.postId, q.type)))
+    );
+    return quiz.map((question, i) =>
+      question.difficulty == null
+        ? question
+        : { ...question, difficulty: blendDifficulty(question.difficulty, stats[i]!) }
+    );
+  } catch (error) {
+    console.error('Failed to load question stats:', error);
+    return quiz;
+  }
+}
+
+/**
+ * Accuracy for every question in a subreddit first answered in the last `days` days with at
+ * least `minAnswers` recorded answers, hardest (lowest accuracy) first.
+ */
+export async function getSubredditQuestionAccuracy(
+  subreddit: string,
+  days: number,
+  minAnswers: number
+): Promise<QuestionAccuracy[]> {
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  const [indexed, titles] = await Promise.all([
+    redis.zRange(subredditQuestionsKey(subreddit), since, Date.now(), { by: 'score' }),
+    redis.hGetAll(subredditTitlesKey(subreddit)),
+  ]);
+  const stats = await Promise.all(indexed.map(({ member }) => getQuestionStats(member)));
+  return indexed
+    .map(({ member, score }, i): QuestionAccuracy | null => {
+      const { attempts, correct } = stats[i]!;
+      if (attempts < minAnswers) return null;
+      return {
+        questionId: member,
+        title: titles[member] ?? '(unknown question)',
+        attempts,
+        correct,
+        accuracy: Math.round((correct / attempts) * 1000) / 1000,
+        firstAnsweredAt: new Date(score).toISOString(),
+      };
+    })
+    .filter((q): q is QuestionAccuracy => q != null)
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts);
+}
@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ListingSource } from '../../shared/config/listingSource';
+import type { QuizQuestion } from '../../shared/types/api';
+import { getListingSource } from './listingSource';
+import {
+  buildDifficultyCurve,
+  fetchPostComments,
+  fetchQuizData,
+  fetchSubredditPosts,
+  marginDifficulty,
+  recheckCommentLeaders,
+  toQuestionType,
+} from './quiz';
+
+import { getSkipReason } from './skipList';
+
+const { getComments, getNewPosts } = vi.hoisted(() => ({
+  getComments: vi.fn(),
+  getNewPosts: vi.fn(),
+}));
+
+vi.mock('@devvit/web/server', () => ({
+  context: {},
+  reddit: { getComments, getNewPosts },
+  redis: {},
+}));
+
+vi.mock('./listingSource', () => ({
+  getListingSource: vi.fn(),
+  getSettleFilter: async () => ({ minPostAgeHours: 3, minComments: 10 }),
+}));
+
+function topCommentQuestion(ups: number[]): QuizQuestion {
+  return {
+    postId: 'post',
+    title: 'A post',
+    author: 'op',
+    permalink: '/r/test/comments/post',
+    comments: ups.map((u, i) => ({ id: `c${i}`, body: `Comment ${i}`, ups: u, author: null })),
+  };
+}
+
+describe('toQuestionType for rankings', () => {
+  it('turns a question with distinct upvotes into a ranking', () => {
+    expect(toQuestionType(topCommentQuestion([30, 20, 10]), 'rank-comments')).toMatchObject({
+      type: 'rank-comments',
+    });
+  });
+
+  it("won't rank comments with tied upvotes, since no order would be right", () => {
+    expect(toQuestionType(topCommentQuestion([30, 20, 20]), 'rank-comments')).toBeNull();
+    expect(toQuestionType(topCommentQuestion([30, 30, 10]), 'rank-comments')).toBeNull();
+  });
+});
+
+describe('fetchPostComments', () => {
+  const thread = [
+    {
+      id: 'top',
+      body: 'Top-level comment',
+      ups: 100,
+      replies: [{ id: 'reply', body: 'A reply that outscored it', ups: 900, replies: [] }],
+    },
+    { id: 'second', body: 'Another top-level comment', ups: 50, replies: [] },
+    { id: 'removed', body: '[removed]', ups: 70, replies: [] },
+  ];
+  getComments.mockResolvedValue({ all: async () => thread });
+
+  it('uses top-level comments only, so replies never become options', async () => {
+    const comments = await fetchPostComments('test', 'post');
+    expect(comments.map((c) => c.id)).toEqual(['top', 'second']);
+  });
+
+  it('includes replies when asked, sorted with the rest by upvotes', async () => {
+    const comments = await fetchPostComments('test', 'post', 10, false);
+    expect(comments.map((c) => c.id)).toEqual(['reply', 'top', 'second']);
+  });
+});
+
+describe('recheckCommentLeaders', () => {
+  const ranking = { ...topCommentQuestion([300, 200, 100]), type: 'rank-comments' } as QuizQuestion;
+
+  /** The thread's comments now, as [id, upvotes] */
+  function threadNow(...comments: [string, number][]) {
+    getComments.mockResolvedValueOnce({
+      all: async () => comments.map(([id, ups]) => ({ id, body: `Comment ${id}`, ups })),
+    });
+  }
+
+  it('re-sorts a ranking by the new upvotes when the top comment holds', async () => {
+    threadNow(['c0', 300], ['c2', 250], ['c1', 120]);
+    const { quiz, changedPostIds } = await recheckCommentLeaders('test', [ranking]);
+    expect(changedPostIds).toEqual([]);
+    expect(quiz[0]!.comments.map((c) => [c.id, c.ups])).toEqual([
+      ['c0', 300],
+      ['c2', 250],
+      ['c1', 120],
+    ]);
+  });
+
+  it('flags a ranking whose lower options are now tied', async () => {
+    threadNow(['c0', 300], ['c1', 150], ['c2', 150]);
+    const { quiz, changedPostIds } = await recheckCommentLeaders('test', [ranking]);
+    expect(changedPostIds).toEqual(['post']);
+    expect(quiz[0]).toBe(ranking);
+  });
+
+  it('flags a ranking with an option gone from the thread', async () => {
+    threadNow(['c0', 300], ['c1', 150], ['new', 90]);
+    const { changedPostIds } = await recheckCommentLeaders('test', [ranking]);
+    expect(changedPostIds).toEqual(['post']);
+  });
+
+  it('keeps a top-comment question whose lower options are tied', async () => {
+    threadNow(['c0', 300], ['c1', 150], ['c2', 150]);
+    const { changedPostIds } = await recheckCommentLeaders('test', [
+      topCommentQuestion([300, 200, 100]),
+    ]);
+    expect(changedPostIds).toEqual([]);
+  });
+
+  it('flags a question whose top comment lost the lead', async () => {
+    threadNow(['c1', 400], ['c0', 300], ['c2', 100]);
+    const { changedPostIds } = await recheckCommentLeaders('test', [
+      topCommentQuestion([300, 200, 100]),
+    ]);
+    expect(changedPostIds).toEqual(['post']);
+  });
+});
+
+describe('marginDifficulty', () => {
+  const comments = (...ups: number[]) =>
+    topCommentQuestion(ups).comments.map((c) => ({ ...c, score: c.ups }));
+
+  it('rates a runaway top comment easy and a near tie hard', () => {
+    expect(marginDifficulty(comments(1000, 0))).toBe(0);
+    expect(marginDifficulty(comments(300, 100))).toBe(0.33);
+    expect(marginDifficulty(comments(100, 99))).toBe(0.99);
+    expect(marginDifficulty(comments(100, 100))).toBe(1);
+  });
+
+  it('rates a question with no runner-up or no upvotes as hardest', () => {
+    expect(marginDifficulty(comments(300))).toBe(1);
+    expect(marginDifficulty(comments(0, 0))).toBe(1);
+    expect(marginDifficulty(comments(100, 200))).toBe(1);
+  });
+});
+
+describe('buildDifficultyCurve', () => {
+  /** Questions named by their difficulty */
+  const pool = (...difficulties: number[]) =>
+    difficulties.map((difficulty) => ({
+      ...topCommentQuestion([2, 1]),
+      postId: `${difficulty}`,
+      difficulty,
+    }));
+  const ids = (quiz: QuizQuestion[]) => quiz.map((q) => q.postId);
+
+  it('spreads the picks evenly from easiest to hardest', () => {
+    expect(ids(buildDifficultyCurve(pool(0.9, 0.1, 0.5, 0.3, 0.7), 3))).toEqual([
+      '0.1',
+      '0.5',
+      '0.9',
+    ]);
+    expect(ids(buildDifficultyCurve(pool(0.6, 0.1, 0.5, 0.3, 0.7, 0.2), 2))).toEqual([
+      '0.1',
+      '0.7',
+    ]);
+  });
+
+  it('picks the middle question when only one is wanted', () => {
+    expect(ids(buildDifficultyCurve(pool(0.9, 0.1, 0.5, 0.3, 0.7), 1))).toEqual(['0.5']);
+    // With no single middle, the easier of the two
+    expect(ids(buildDifficultyCurve(pool(0.9, 0.1, 0.5, 0.3), 1))).toEqual(['0.3']);
+  });
+
+  it('keeps the whole pool, easiest first, when it has no more than wanted', () => {
+    expect(ids(buildDifficultyCurve(pool(0.9, 0.1, 0.5), 3))).toEqual(['0.1', '0.5', '0.9']);
+    expect(ids(buildDifficultyCurve(pool(0.9, 0.1), 5))).toEqual(['0.1', '0.9']);
+    expect(buildDifficultyCurve([], 5)).toEqual([]);
+  });
+
+  it('counts a question without a difficulty as easiest', () => {
+    const unrated = { ...topCommentQuestion([2, 1]), postId: 'unrated' };
+    expect(ids(buildDifficultyCurve([...pool(0.4, 0.2), unrated], 3))).toEqual([
+      'unrated',
+      '0.2',
+      '0.4',
+    ]);
+  });
+});
+
+describe('paging an aged new listing', () => {
+  const AGED_NEW: ListingSource = { sort: 'new', minAgeHours: 6 };
+  const HOUR_MS = 60 * 60 * 1000;
+  let pulled = 0;
+
+  /** A new listing of `count` posts, each `ageHours` old, after `young` posts an hour old */
+  function newListing(count: number, ageHours: number, young = 0) {
+    const posts = Array.from({ length: young + count }, (_, i) => ({
+      id: `t3_p${i}`,
+      title: `Post ${i}`,
+      createdAt: new Date(Date.now() - (i < young ? 1 : ageHours) * HOUR_MS),
+      numComments: 50,
+    }));
+    getNewPosts.mockImplementation(({ limit }: { limit: number }) => ({
+      async *[Symbol.asyncIterator]() {
+        for (const post of posts.slice(0, limit)) {
+          pulled++;
+          yield post;
+        }
+      },
+    }));
+  }
+
+  beforeEach(() => {
+    pulled = 0;
+    getNewPosts.mockReset();
+    vi.mocked(getListingSource).mockResolvedValue({ source: AGED_NEW, custom: true });
+  });
+
+  it('pages past posts too young to use', async () => {
+    newListing(20, 12, 150);
+    const posts = await fetchSubredditPosts('test', 5, AGED_NEW);
+    expect(posts.map((p) => p.id)).toEqual(['p150', 'p151', 'p152', 'p153', 'p154']);
+    expect(getNewPosts).toHaveBeenCalledWith(
+      expect.objectContaining({ subredditName: 'test', limit: 250, pageSize: 5 })
+    );
+  });
+
+  it('stops reading the listing once it has enough posts', async () => {
+    newListing(200, 12);
+    await fetchSubredditPosts('test', 5, AGED_NEW);
+    expect(pulled).toBe(5);
+  });
+
+  it('gives up after the scan limit', async () => {
+    newListing(20, 12, 300);
+    expect(await fetchSubredditPosts('test', 5, AGED_NEW)).toEqual([]);
+    expect(pulled).toBe(250);
+  });
+
+  it('reports a reachable subreddit with nothing settled as short of questions', async () => {
+    newListing(0, 0, 40);
+    const error = await fetchQuizData('test').catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toMatch(
+      /^No settled posts in r\/test: none of the 40 posts checked in its new-6h listing passed the post filters \(at least 6h old with 10\+ comments/
+    );
+    expect(getSkipReason((error as Error).message)).toBe('insufficient_questions');
+  });
+
+  it('tells an empty listing apart from one with nothing settled', async () => {
+    newListing(0, 0);
+    const error = (await fetchQuizData('test').catch((e: Error) => e)) as Error;
+    expect(error.message).toMatch(/^No posts found in r\/test/);
+  });
+});
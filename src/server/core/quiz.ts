@@ -1,66 +1,158 @@
-import type { QuizQuestion } from '../../shared/types/api';
+import type {
+  CandidateBreakdown,
+  GuessTitleQuestion,
+  OptionRejection,
+  QualityDebugResponse,
+  QuizQuestion,
+  QuizQuestionBase,
+  UpvoteGuessQuestion,
+  WhichSubredditQuestion,
+} from '../../shared/types/api';
 import { reddit } from '@devvit/web/server';
+import { DEFAULT_QUIZ_CONFIG, type QuizConfig } from '../../shared/config/quiz';
+import type { QuestionType } from '../../shared/config/questionTypes';
+import type { ScorerWeights } from '../../shared/config/scoring';
+import {
+  formatListingSource,
+  type ListingSource,
+  type SettleFilter,
+} from '../../shared/config/listingSource';
+import { findUnsafeContent, getContentSafetyRules, type SafetyRule } from './contentSafety';
+import { getListingSource, getSettleFilter } from './listingSource';
+import { getActiveRotation } from './rotation';
+import { dropSpoilerComments, getSpoilerReason } from './spoilers';
+import {
+  getScorerWeights,
+  rankCandidates,
+  type ScoredCandidate,
+  type ScoringCandidate,
+} from './scoring';
+
+/** Posts per listing request (Reddit's maximum) */
+const LISTING_PAGE_SIZE = 100;
+
+/**
+ * Listing posts checked at most while looking for enough that pass the post filters, when the
+ * first page may not be enough (aged new listings, or any listing under the settle filter)
+ */
+const MAX_LISTING_SCAN = 250;
+
+/**
+ * The Devvit listing for a source (age limits for new posts are applied by getPostRejection),
+ * fetched `pageSize` posts at a time
+ */
+function getListing(subreddit: string, limit: number, source: ListingSource, pageSize = limit) {
+  const options = {
+    subredditName: subreddit,
+    limit,
+    pageSize: Math.min(pageSize, LISTING_PAGE_SIZE),
+  };
+  switch (source.sort) {
+    case 'top':
+      return reddit.getTopPosts({ ...options, timeframe: source.timeframe });
+    case 'rising':
+      return reddit.getRisingPosts(options);
+    case 'new':
+      return reddit.getNewPosts(options);
+    default:
+      return reddit.getHotPosts(options);
+  }
+}
+
+/**
+ * Transform a Devvit post object to our RedditPost format
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Devvit API returns untyped Post objects
+function toRedditPost(post: any, subreddit: string): RedditPost['data'] {
+  const src = post.data ?? post;
+  let postId = (src.id || src.postId || '').toString();
+  if (postId.startsWith('t3_')) {
+    postId = postId.substring(3);
+  }
+  return {
+    id: postId,
+    title: src.title || '',
+    selftext: src.selftext ?? src.body ?? '',
+    url: src.url ?? src.linkUrl ?? src.destination ?? '',
+    author: src.author ?? src.authorName ?? null,
+    permalink: src.permalink || `/r/${subreddit}/comments/${postId}`,
+    score: src.score ?? src.ups ?? 0,
+    created_utc: src.createdAt
+      ? Math.floor(new Date(src.createdAt).getTime() / 1000)
+      : (src.created_utc ?? undefined),
+    num_comments: src.numComments ?? src.commentCount ?? 0,
+    over_18: src.over_18 ?? src.over18 ?? src.nsfw ?? false,
+    is_video: src.is_video ?? src.isVideo ?? false,
+    stickied: src.stickied ?? false,
+    distinguished: src.distinguished ?? null,
+    locked: src.locked ?? false,
+    crosspost_parent: src.crosspost_parent ?? src.crosspostParent ?? null,
+    crosspost_parent_list: src.crosspost_parent_list ?? src.crosspostParentList ?? undefined,
+    is_crosspost: src.is_crosspost ?? src.isCrosspost ?? false,
+    media: src.media ?? src.secure_media ?? src.secureMedia,
+    secure_media: src.secure_media ?? src.secureMedia,
+    preview: src.preview,
+    gallery_data: src.galleryData ?? src.gallery_data,
+  } as RedditPost['data'];
+}
 
 /**
- * Fetch hot posts from a subreddit using Devvit's built-in Reddit API
+ * Fetch posts from a subreddit's listing for `source` using Devvit's built-in Reddit API
  */
 async function fetchSubredditPostsWithDevvitAPI(
   subreddit: string,
-  limit: number
+  limit: number,
+  source: ListingSource
 ): Promise<RedditPost['data'][]> {
   try {
-    // Use Devvit's getHotPosts method - returns Listing<Post>
-    const listing = await reddit.getHotPosts({
-      subredditName: subreddit,
-      limit: limit,
-    });
-
-    // Extract posts from Listing - Listing has an all() method that returns Promise<Post[]>
-    const posts = await listing.all();
+    const posts = await getListing(subreddit, limit, source).all();
+    return posts.map((post) => toRedditPost(post, subreddit));
+  } catch (error) {
+    console.error(`Error fetching posts with Devvit API for r/${subreddit}:`, error);
+    throw error;
+  }
+}
 
-    // Transform Devvit post objects to our RedditPost format
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Devvit API returns untyped Post objects
-    return posts.map((post: any) => {
-      const src = post.data ?? post;
-      let postId = (src.id || src.postId || '').toString();
-      if (postId.startsWith('t3_')) {
-        postId = postId.substring(3);
-      }
-      return {
-        id: postId,
-        title: src.title || '',
-        selftext: src.selftext ?? src.body ?? '',
-        url: src.url ?? src.linkUrl ?? src.destination ?? '',
-        author: src.author ?? src.authorName ?? null,
-        permalink: src.permalink || `/r/${subreddit}/comments/${postId}`,
-        score: src.score ?? src.ups ?? 0,
-        num_comments: src.numComments ?? src.commentCount ?? 0,
-        over_18: src.over_18 ?? src.over18 ?? src.nsfw ?? false,
-        is_video: src.is_video ?? src.isVideo ?? false,
-        stickied: src.stickied ?? false,
-        distinguished: src.distinguished ?? null,
-        locked: src.locked ?? false,
-        crosspost_parent: src.crosspost_parent ?? src.crosspostParent ?? null,
-        crosspost_parent_list: src.crosspost_parent_list ?? src.crosspostParentList ?? undefined,
-        is_crosspost: src.is_crosspost ?? src.isCrosspost ?? false,
-        media: src.media ?? src.secure_media ?? src.secureMedia,
-        secure_media: src.secure_media ?? src.secureMedia,
-        preview: src.preview,
-        gallery_data: src.galleryData ?? src.gallery_data,
-      } as RedditPost['data'];
-    });
+/**
+ * Page through a subreddit's listing for `source` until `limit` posts pass getPostRejection
+ * (skipping `excludeIds`). Aged new listings, and any listing while the settle filter is on, are
+ * paged back up to MAX_LISTING_SCAN posts, past ones too young or quiet to use. `scanned` is how
+ * many listing posts were checked.
+ */
+async function scanSubredditPosts(
+  subreddit: string,
+  limit: number,
+  source: ListingSource,
+  excludeIds: Set<string> = new Set()
+): Promise<{ posts: RedditPost['data'][]; scanned: number }> {
+  const filter = await getSettleFilter();
+  const settling = minPostAgeHours(source, filter) > 0 || filter.minComments > 0;
+  const scanLimit = settling ? Math.max(limit, MAX_LISTING_SCAN) : limit;
+  const posts: RedditPost['data'][] = [];
+  let scanned = 0;
+  try {
+    for await (const raw of getListing(subreddit, scanLimit, source, limit)) {
+      scanned++;
+      const post = toRedditPost(raw, subreddit);
+      if (excludeIds.has(post.id) || getPostRejection(post, source, filter) != null) continue;
+      posts.push(post);
+      if (posts.length >= limit) break;
+    }
   } catch (error) {
     console.error(`Error fetching posts with Devvit API for r/${subreddit}:`, error);
     throw error;
   }
+  return { posts, scanned };
 }
 
 /**
- * Fetch comments for a post using Devvit's built-in Reddit API
+ * Fetch comments for a post using Devvit's built-in Reddit API. Only top-level comments by
+ * default: replies answer or quote the comment above them, which gives answers away.
  */
 async function fetchPostCommentsWithDevvitAPI(
   postId: string,
-  limit: number
+  limit: number,
+  topLevelOnly = true
 ): Promise<RedditComment['data'][]> {
   try {
     // Use Devvit's getComments method - returns Listing<Comment>
@@ -105,8 +197,8 @@ async function fetchPostCommentsWithDevvitAPI(
 
           transformedComments.push(transformed);
 
-          // Recursively extract replies if they exist
-          if (comment.replies && Array.isArray(comment.replies)) {
+          // Recursively extract replies if they exist (and are wanted)
+          if (!topLevelOnly && comment.replies && Array.isArray(comment.replies)) {
             extractComments(comment.replies);
           }
         }
@@ -132,7 +224,7 @@ async function fetchPostCommentsWithDevvitAPI(
 /**
  * Reddit JSON API response types
  */
-type RedditPost = {
+export type RedditPost = {
   data: {
     id: string;
     title: string;
@@ -141,6 +233,8 @@ type RedditPost = {
     author: string | null;
     permalink: string;
     score: number;
+    /** Post creation time (Unix seconds), when the API provides it */
+    created_utc?: number;
     num_comments: number;
     over_18: boolean;
     is_video: boolean;
@@ -178,7 +272,7 @@ type RedditPost = {
   };
 };
 
-type RedditComment = {
+export type RedditComment = {
   data: {
     id: string;
     body: string;
@@ -256,6 +350,21 @@ type RedditCommentListing = {
 /** Minimum number of candidate posts to fetch so we still get 5 after quality filters */
 const CANDIDATE_POST_LIMIT = 30;
 
+/** Candidate posts fetched per question wanted, so larger quizzes still fill after filtering */
+const CANDIDATES_PER_QUESTION = 6;
+
+function candidatePostLimit(config: QuizConfig): number {
+  return Math.max(CANDIDATE_POST_LIMIT, config.questionsPerQuiz * CANDIDATES_PER_QUESTION);
+}
+
+/**
+ * Comments fetched per post: enough options plus a buffer for the clear-winner check and for
+ * options dropped as spoilers
+ */
+function commentFetchLimit(config: QuizConfig): number {
+  return Math.max(7, config.optionsPerQuestion + 4);
+}
+
 /**
  * Fetch video fallback_url from Reddit's public JSON API when Devvit API omits media.
  * Used as fallback for video posts that lack media.reddit_video in the listing response.
@@ -284,45 +393,87 @@ async function fetchVideoUrlFromRedditJson(postId: string): Promise<string | nul
 }
 
 /**
- * Fetch hot posts from a subreddit using Devvit's built-in Reddit API.
- * Filters out NSFW, stickied, mod/distinguished, locked, and crossposts.
+ * Hours a post must have been up to be used: the settle filter's, or an aged new listing's if longer
+ */
+function minPostAgeHours(source: ListingSource, filter: SettleFilter): number {
+  return Math.max(filter.minPostAgeHours, source.sort === 'new' ? source.minAgeHours : 0);
+}
+
+/**
+ * Why a listing post can't be a question (NSFW, stickied, mod/distinguished, locked,
+ * crosspost, deleted, too new or too few comments to have settled), or null if it passes.
+ */
+function getPostRejection(
+  post: RedditPost['data'],
+  source: ListingSource,
+  filter: SettleFilter
+): string | null {
+  if (!post.title || post.title === '[deleted]' || post.title === '[removed]') {
+    return 'Deleted or removed';
+  }
+  if (post.over_18) return 'NSFW';
+  if (post.stickied) return 'Stickied';
+  if (post.distinguished === 'moderator' || post.distinguished === 'admin') {
+    return 'Mod or admin post';
+  }
+  if (post.locked) return 'Locked';
+  if (
+    post.crosspost_parent ||
+    post.is_crosspost ||
+    (Array.isArray(post.crosspost_parent_list) && post.crosspost_parent_list.length > 0)
+  ) {
+    return 'Crosspost';
+  }
+  const minAgeHours = minPostAgeHours(source, filter);
+  if (post.created_utc && Date.now() / 1000 - post.created_utc < minAgeHours * 3600) {
+    return `Younger than ${minAgeHours}h`;
+  }
+  if (post.num_comments < filter.minComments) {
+    return `Fewer than ${filter.minComments} comments`;
+  }
+  return null;
+}
+
+/**
+ * Fetch posts from a subreddit using Devvit's built-in Reddit API, from `source` or the
+ * subreddit's configured listing source.
+ * Filters out NSFW, stickied, mod/distinguished, locked, crossposts and posts that haven't
+ * settled (younger or with fewer comments than the settle filter).
  */
 export async function fetchSubredditPosts(
   subreddit: string,
-  limit: number = CANDIDATE_POST_LIMIT
+  limit: number = CANDIDATE_POST_LIMIT,
+  source?: ListingSource
 ): Promise<RedditPost['data'][]> {
-  const posts = await fetchSubredditPostsWithDevvitAPI(subreddit, limit);
+  const listingSource = source ?? (await getListingSource(subreddit)).source;
+  return (await scanSubredditPosts(subreddit, limit, listingSource)).posts;
+}
 
-  return posts.filter((post) => {
-    if (!post.title || post.title === '[deleted]' || post.title === '[removed]') {
-      return false;
-    }
-    if (post.over_18) return false;
-    if (post.stickied) return false;
-    if (post.distinguished === 'moderator' || post.distinguished === 'admin') return false;
-    if (post.locked) return false;
-    if (post.crosspost_parent) return false;
-    if (post.is_crosspost) return false;
-    if (
-      post.crosspost_parent_list &&
-      Array.isArray(post.crosspost_parent_list) &&
-      post.crosspost_parent_list.length > 0
-    )
-      return false;
-    return true;
-  });
+/**
+ * Record the listing questions were drawn from on each (it's kept in the cached quiz)
+ */
+function withListingSource<T extends QuizQuestion>(questions: T[], source: ListingSource): T[] {
+  const listingSource = formatListingSource(source);
+  return questions.map((question) => ({ ...question, listingSource }));
 }
 
 /**
- * Fetch top comments for a post using Devvit's built-in Reddit API
+ * Fetch top comments for a post using Devvit's built-in Reddit API (top-level only unless
+ * `topLevelOnly` is false)
  */
 export async function fetchPostComments(
   _subreddit: string,
   postId: string,
-  limit: number = 10
+  limit: number = 10,
+  topLevelOnly = true
 ): Promise<RedditComment['data'][]> {
   // Use Devvit's built-in Reddit API (subreddit parameter not needed for getComments)
-  return await fetchPostCommentsWithDevvitAPI(postId, limit);
+  return await fetchPostCommentsWithDevvitAPI(postId, limit, topLevelOnly);
+}
+
+/** Subreddit name from a post permalink (/r/{name}/comments/...), if present */
+export function subredditFromPermalink(permalink: string): string | null {
+  return /\/r\/([A-Za-z0-9_]+)\//.exec(permalink)?.[1] ?? null;
 }
 
 /**
@@ -429,76 +580,363 @@ function extractVideoUrls(post: RedditPost['data']): {
 }
 
 /**
- * Require at least 3 comments and a clear upvote winner (top > 2nd).
+ * Require enough comments for every option and a clear upvote winner
+ * (top leads 2nd by at least config.minUpvoteGap).
  */
-function hasClearWinner(comments: RedditComment['data'][]): boolean {
-  if (comments.length < 3) return false;
+function hasClearWinner(
+  comments: RedditComment['data'][],
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG
+): boolean {
+  if (comments.length < config.optionsPerQuestion) return false;
   const [first, second] = comments;
-  return first != null && second != null && first.ups > second.ups;
+  return first != null && second != null && first.ups - second.ups >= config.minUpvoteGap;
+}
+
+/**
+ * Why a post's comments can't make a question (too few, no clear winner, the top comment
+ * gives itself away), or null if they can.
+ */
+function getCommentRejection(
+  comments: RedditComment['data'][],
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG
+): string | null {
+  const topSpoiler = comments[0] ? getSpoilerReason(comments[0]) : null;
+  if (topSpoiler) return `Top comment gives the answer away (${topSpoiler})`;
+  if (comments.length < config.optionsPerQuestion) {
+    return `Only ${comments.length} usable comments (need ${config.optionsPerQuestion})`;
+  }
+  if (!hasClearWinner(comments, config)) {
+    return `Top comment doesn't lead the runner-up by ${config.minUpvoteGap}+ upvotes`;
+  }
+  return null;
 }
 
 /**
- * Total character length of OP (title + selftext) plus top 3 comment bodies.
- * Used to prefer shorter content to reduce scrolling. Returns Infinity if post doesn't qualify.
+ * Why a post can't be a question because of what it says (a blocked word, pattern or personal
+ * info in its title, selftext or option comments; see contentSafety.ts), or null if it's clean.
  */
-function getContentLength(
+function getSafetyRejection(
+  post: RedditPost['data'],
+  comments: RedditComment['data'][],
+  rules: SafetyRule[],
+  config: QuizConfig
+): string | null {
+  const texts = [
+    post.title,
+    post.selftext ?? '',
+    ...comments.slice(0, config.optionsPerQuestion).map((c) => c.body),
+  ];
+  const rule = findUnsafeContent(texts, rules);
+  return rule ? `Unsafe content (${rule.label})` : null;
+}
+
+function toScoringCandidate(
   post: RedditPost['data'],
-  commentsMap: Map<string, RedditComment['data'][]>
-): number {
-  const comments = commentsMap.get(post.id) ?? [];
-  if (comments.length < 3 || !hasClearWinner(comments)) return Number.POSITIVE_INFINITY;
-  const opLength = (post.title ?? '').length + (post.selftext ?? '').length;
-  const commentLength = comments.slice(0, 3).reduce((sum, c) => sum + (c.body ?? '').length, 0);
-  return opLength + commentLength;
+  comments: RedditComment['data'][],
+  config: QuizConfig
+): ScoringCandidate {
+  const { direct, embed } = extractVideoUrls(post);
+  return {
+    post,
+    options: comments.slice(0, config.optionsPerQuestion),
+    hasMedia: extractImageUrls(post).length > 0 || direct != null || embed != null,
+  };
+}
+
+/**
+ * Run posts with a clear winner through the quality scorers (see scoring.ts).
+ * Returns every scored candidate, best first, with rejected ones last.
+ */
+function scorePosts(
+  posts: RedditPost['data'][],
+  commentsMap: Map<string, RedditComment['data'][]>,
+  config: QuizConfig,
+  weights: ScorerWeights
+): ScoredCandidate[] {
+  const candidates = posts
+    .filter((post) => getCommentRejection(commentsMap.get(post.id) ?? [], config) == null)
+    .map((post) => toScoringCandidate(post, commentsMap.get(post.id) ?? [], config));
+  return rankCandidates(candidates, weights);
+}
+
+/**
+ * Qualifying posts, best quality first.
+ */
+function rankPosts(
+  posts: RedditPost['data'][],
+  commentsMap: Map<string, RedditComment['data'][]>,
+  config: QuizConfig,
+  weights: ScorerWeights
+): RedditPost['data'][] {
+  return scorePosts(posts, commentsMap, config, weights)
+    .filter((scored) => scored.rejection == null)
+    .map((scored) => scored.candidate.post);
+}
+
+/**
+ * Fetch the top comments for each post in parallel, without comments that would give answers
+ * away (see dropSpoilerComments; the dropped ones are returned by post ID). Posts whose
+ * comments fail to load or have none are left out of the map (and so never qualify).
+ */
+async function fetchCommentsMap(
+  subreddit: string,
+  posts: RedditPost['data'][],
+  config: QuizConfig
+): Promise<{
+  commentsMap: Map<string, RedditComment['data'][]>;
+  droppedOptions: Map<string, OptionRejection[]>;
+}> {
+  // Note: getComments needs the full post ID in t3_xxxxx format
+  // We only need optionsPerQuestion comments per post, so fetch a couple more as buffer
+  const commentPromises = posts.map((post) => {
+    // Get the original post ID (might be stored in originalId or we need to reconstruct it)
+    const postId = (post as { originalId?: string; id: string }).originalId || post.id;
+    // Ensure it's in t3_ format for getComments
+    const fullPostId = postId.startsWith('t3_') ? postId : `t3_${postId}`;
+
+    return fetchPostComments(subreddit, fullPostId, commentFetchLimit(config)).catch((error) => {
+      console.error(`Failed to fetch comments for post ${post.id}:`, error);
+      return []; // Return empty array on error - post will be skipped
+    });
+  });
+
+  const commentsArrays = await Promise.all(commentPromises);
+
+  // Create a map of postId -> comments
+  // Use the normalized post.id (without t3_ prefix) as the key
+  const commentsMap = new Map<string, RedditComment['data'][]>();
+  const droppedOptions = new Map<string, OptionRejection[]>();
+  for (let i = 0; i < posts.length; i++) {
+    const post = posts[i];
+    const comments = commentsArrays[i];
+    if (post && comments && comments.length > 0) {
+      const { comments: kept, dropped } = dropSpoilerComments(comments);
+      commentsMap.set(post.id, kept);
+      if (dropped.length > 0) droppedOptions.set(post.id, dropped);
+    }
+  }
+  return { commentsMap, droppedOptions };
+}
+
+/** Qualifying posts considered per question wanted, so the curve has a spread to pick from */
+const CURVE_POOL_PER_QUESTION = 2;
+
+/**
+ * Difficulty from the upvote margin: near 0 when the top comment dwarfs the runner-up,
+ * near 1 for a near tie.
+ */
+export function marginDifficulty(comments: RedditComment['data'][]): number {
+  const [first, second] = comments;
+  if (!first || !second || first.ups <= 0) return 1;
+  const margin = Math.min(Math.max((first.ups - second.ups) / first.ups, 0), 1);
+  return Math.round((1 - margin) * 100) / 100;
+}
+
+/**
+ * Pick `count` questions spread evenly across the pool's difficulty range, easiest first.
+ */
+export function buildDifficultyCurve(pool: QuizQuestion[], count: number): QuizQuestion[] {
+  const sorted = [...pool].sort((a, b) => (a.difficulty ?? 0) - (b.difficulty ?? 0));
+  if (sorted.length <= count) return sorted;
+  if (count === 1) return [sorted[Math.floor((sorted.length - 1) / 2)]!];
+  return Array.from(
+    { length: count },
+    (_, i) => sorted[Math.round((i * (sorted.length - 1)) / (count - 1))]!
+  );
+}
+
+/**
+ * Turn a question into "guess the upvote count" for its top comment. The upvote-margin
+ * difficulty doesn't apply, so it's dropped.
+ */
+export function toUpvoteGuessQuestion(question: QuizQuestion): UpvoteGuessQuestion {
+  const { difficulty: _difficulty, comments, ...rest } = question;
+  return { ...rest, type: 'upvote-guess', comments: [comments[0]!] };
+}
+
+/**
+ * `count` indices (at most `length`) spaced evenly through a list of `length` items
+ */
+function spreadPositions(length: number, count: number): number[] {
+  const n = Math.min(count, length);
+  return Array.from({ length: n }, (_, i) => Math.floor(((i + 1) * length) / (n + 1)));
+}
+
+/** Whether every option has a different upvote count, so there's one right ranking */
+function hasDistinctUpvotes(question: QuizQuestion): boolean {
+  return new Set(question.comments.map((c) => c.ups)).size === question.comments.length;
+}
+
+/**
+ * Turn a question into "guess the title": the post's content and top comment, with its real
+ * title among titles of other posts from `titlePool`. Null unless the post has an image,
+ * video or text to go on and the pool has enough other titles.
+ */
+function toGuessTitleQuestion(
+  question: QuizQuestion,
+  titlePool: string[]
+): GuessTitleQuestion | null {
+  const hasContent =
+    !!question.imageUrl || !!question.videoUrl || !!question.videoEmbedUrl || !!question.selftext;
+  const topComment = question.comments[0];
+  if (!hasContent || !topComment) return null;
+
+  const seen = new Set([question.title.toLowerCase()]);
+  const decoys = shuffle(titlePool).filter((title) => {
+    const key = title.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const optionCount = Math.max(question.comments.length, 2);
+  if (decoys.length < optionCount - 1) return null;
+
+  const { difficulty: _difficulty, ...rest } = question;
+  return {
+    ...rest,
+    type: 'guess-title',
+    comments: [topComment],
+    titleOptions: [question.title, ...decoys.slice(0, optionCount - 1)],
+  };
+}
+
+/**
+ * Turn a top-comment question into another question type. Returns null when it can't be
+ * converted (rankings need distinct upvote counts; title guesses need content and other
+ * titles from `titlePool`; which-subreddit questions come from other subreddits, see
+ * fetchSubredditQuestions).
+ */
+export function toQuestionType(
+  question: QuizQuestion,
+  type: QuestionType,
+  titlePool: string[] = []
+): QuizQuestion | null {
+  switch (type) {
+    case 'upvote-guess':
+      return toUpvoteGuessQuestion(question);
+    case 'rank-comments':
+      return hasDistinctUpvotes(question) ? { ...question, type: 'rank-comments' } : null;
+    case 'guess-title':
+      return toGuessTitleQuestion(question, titlePool);
+    case 'top-comment':
+      return question;
+    case 'which-subreddit':
+      return null;
+  }
+}
+
+/** Types mixQuestionTypes converts to, tried in this order when equally wanted */
+const MIXED_TYPES = [
+  ['rank-comments', 'rankCommentsQuestions'],
+  ['guess-title', 'guessTitleQuestions'],
+  ['upvote-guess', 'upvoteGuessQuestions'],
+] as const;
+
+/**
+ * Convert the configured number of upvote guesses, rankings and title guesses, spread evenly
+ * through the quiz. Each slot takes the type with the most conversions left so types
+ * alternate rather than cluster; a question that can't become that type tries the next
+ * (every question can become an upvote guess). Title decoys come from `titlePool`.
+ */
+function mixQuestionTypes(
+  questions: QuizQuestion[],
+  config: QuizConfig,
+  titlePool: string[]
+): QuizQuestion[] {
+  const remaining = new Map<QuestionType, number>(
+    MIXED_TYPES.map(([type, field]) => [type, config[field]])
+  );
+  const total = [...remaining.values()].reduce((sum, n) => sum + n, 0);
+  const slots = new Set(spreadPositions(questions.length, total));
+  return questions.map((question, i) => {
+    if (!slots.has(i)) return question;
+    const wanted = MIXED_TYPES.map(([type]) => type)
+      .filter((type) => (remaining.get(type) ?? 0) > 0)
+      .sort((a, b) => (remaining.get(b) ?? 0) - (remaining.get(a) ?? 0));
+    for (const type of wanted) {
+      const converted = toQuestionType(question, type, titlePool);
+      if (converted) {
+        remaining.set(type, (remaining.get(type) ?? 0) - 1);
+        return converted;
+      }
+    }
+    return question;
+  });
+}
+
+/**
+ * The post content every question type shows
+ */
+function toQuestionBase(post: RedditPost['data']): QuizQuestionBase {
+  const imageUrls = extractImageUrls(post);
+  const { direct: videoUrl, embed: videoEmbedUrl } = extractVideoUrls(post);
+  return {
+    postId: post.id,
+    title: post.title,
+    ...(post.selftext && { selftext: post.selftext }),
+    ...(post.url && { url: post.url }),
+    ...(imageUrls[0] && { imageUrl: imageUrls[0] }),
+    ...(imageUrls.length > 0 && { imageUrls }),
+    isVideo: post.is_video || !!videoUrl || !!videoEmbedUrl,
+    ...(videoUrl && { videoUrl }),
+    ...(videoEmbedUrl && { videoEmbedUrl }),
+    author: post.author,
+    permalink: post.permalink.startsWith('http')
+      ? post.permalink
+      : `https://www.reddit.com${post.permalink}`,
+  };
 }
 
 /**
  * Transform Reddit post and comments into quiz question format.
- * Only includes posts with ≥3 comments and a clear top comment (top upvotes > 2nd).
+ * Only includes posts with enough comments for every option and a clear top comment, and
+ * none of `safetyRules` broken (rejections are logged with the rule).
+ * Takes the best posts (in the given order) as a pool and returns config.questionsPerQuiz
+ * of them as an easy-to-hard curve, with some turned into other question types
+ * (see mixQuestionTypes).
  */
 export function transformToQuizFormat(
   posts: RedditPost['data'][],
-  commentsMap: Map<string, RedditComment['data'][]>
+  commentsMap: Map<string, RedditComment['data'][]>,
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG,
+  safetyRules: SafetyRule[] = []
 ): QuizQuestion[] {
   const quizQuestions: QuizQuestion[] = [];
 
   for (const post of posts) {
     const comments = commentsMap.get(post.id) || [];
-    if (comments.length < 3 || !hasClearWinner(comments)) {
+    if (getCommentRejection(comments, config) != null) {
+      continue;
+    }
+    const unsafe = getSafetyRejection(post, comments, safetyRules, config);
+    if (unsafe) {
+      console.log(`Rejected post ${post.id} as a question: ${unsafe}`);
       continue;
     }
-
-    const imageUrls = extractImageUrls(post);
-    const { direct: videoUrl, embed: videoEmbedUrl } = extractVideoUrls(post);
 
     const quizQuestion: QuizQuestion = {
-      postId: post.id,
-      title: post.title,
-      ...(post.selftext && { selftext: post.selftext }),
-      ...(post.url && { url: post.url }),
-      ...(imageUrls[0] && { imageUrl: imageUrls[0] }),
-      ...(imageUrls.length > 0 && { imageUrls }),
-      isVideo: post.is_video || !!videoUrl || !!videoEmbedUrl,
-      ...(videoUrl && { videoUrl }),
-      ...(videoEmbedUrl && { videoEmbedUrl }),
-      author: post.author,
-      permalink: post.permalink.startsWith('http')
-        ? post.permalink
-        : `https://www.reddit.com${post.permalink}`,
-      comments: comments.slice(0, 3).map((comment) => ({
+      ...toQuestionBase(post),
+      comments: comments.slice(0, config.optionsPerQuestion).map((comment) => ({
         id: comment.id,
         body: comment.body,
         ups: comment.ups,
         author: comment.author,
         ...(comment.gifUrl && { gifUrl: comment.gifUrl }),
       })),
+      difficulty: marginDifficulty(comments),
     };
 
     quizQuestions.push(quizQuestion);
-    if (quizQuestions.length >= 5) break;
+    if (quizQuestions.length >= config.questionsPerQuiz * CURVE_POOL_PER_QUESTION) break;
   }
 
-  return quizQuestions;
+  // Every qualifying post's title is a candidate decoy for title guesses
+  const titlePool = quizQuestions.map((q) => q.title);
+  return mixQuestionTypes(
+    buildDifficultyCurve(quizQuestions, config.questionsPerQuiz),
+    config,
+    titlePool
+  );
 }
 
 /**
@@ -507,90 +945,310 @@ export function transformToQuizFormat(
  */
 export async function getReplacementQuestion(
   subreddit: string,
-  excludePostIds: string[]
+  excludePostIds: string[],
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG
 ): Promise<QuizQuestion | null> {
   const excludeSet = new Set(excludePostIds.map((id) => id.trim()).filter(Boolean));
-  const posts = (await fetchSubredditPosts(subreddit)).filter((p) => !excludeSet.has(p.id));
+  const { source } = await getListingSource(subreddit);
+  const posts = (await fetchSubredditPosts(subreddit, candidatePostLimit(config), source)).filter(
+    (p) => !excludeSet.has(p.id)
+  );
   if (posts.length === 0) return null;
 
-  const commentPromises = posts.map((post) => {
-    const postId = (post as { originalId?: string; id: string }).originalId || post.id;
-    const fullPostId = postId.startsWith('t3_') ? postId : `t3_${postId}`;
-    return fetchPostComments(subreddit, fullPostId, 5).catch(() => []);
+  const [{ commentsMap }, { weights }, safetyRules] = await Promise.all([
+    fetchCommentsMap(subreddit, posts, config),
+    getScorerWeights(subreddit),
+    getContentSafetyRules(subreddit),
+  ]);
+  const rankedPosts = rankPosts(posts, commentsMap, config, weights);
+  const enrichedPosts = await enrichPostsWithVideoUrls(rankedPosts);
+  const questions = transformToQuizFormat(
+    enrichedPosts,
+    commentsMap,
+    {
+      ...config,
+      questionsPerQuiz: 1,
+      // The caller converts the replacement to match the question it replaces
+      upvoteGuessQuestions: 0,
+      rankCommentsQuestions: 0,
+      whichSubredditQuestions: 0,
+      guessTitleQuestions: 0,
+    },
+    safetyRules
+  );
+  return withListingSource(questions, source)[0] ?? null;
+}
+
+/**
+ * Re-fetch each question's comments and bring its options' upvotes up to date (re-sorted by
+ * them), so a quiz built hours earlier matches the thread players will click through to.
+ * Also returns the questions whose top comment has lost the lead, or no longer clears
+ * config.minUpvoteGap, and rankings with an option gone or now tied; those need dropping.
+ * Questions without comments (which-subreddit) or whose comments fail to load are kept as
+ * they are.
+ */
+export async function recheckCommentLeaders(
+  subreddit: string,
+  quiz: QuizQuestion[],
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG
+): Promise<{ quiz: QuizQuestion[]; changedPostIds: string[] }> {
+  const freshComments = await Promise.all(
+    quiz.map((question) =>
+      question.comments.length === 0
+        ? null
+        : fetchPostComments(subreddit, question.postId, commentFetchLimit(config)).catch(
+            (error) => {
+              console.warn(`Couldn't recheck comments for post ${question.postId}:`, error);
+              return null;
+            }
+          )
+    )
+  );
+
+  const changedPostIds: string[] = [];
+  const quizOut = quiz.map((question, i) => {
+    const fresh = freshComments[i] && dropSpoilerComments(freshComments[i]).comments;
+    if (!fresh) return question;
+    if (fresh[0]?.id !== question.comments[0]?.id || !hasClearWinner(fresh, config)) {
+      changedPostIds.push(question.postId);
+      return question;
+    }
+    const freshUps = new Map(fresh.map((c) => [c.id, c.ups]));
+    const comments = question.comments
+      .map((c) => ({ ...c, ups: freshUps.get(c.id) ?? c.ups }))
+      .sort((a, b) => b.ups - a.ups);
+    const refreshed = { ...question, comments } as QuizQuestion;
+    // A ranking's whole order is the answer: an option gone from the thread or a new tie leaves
+    // no right order, as toQuestionType refuses when the quiz is made
+    if (
+      question.type === 'rank-comments' &&
+      (question.comments.some((c) => !freshUps.has(c.id)) || !hasDistinctUpvotes(refreshed))
+    ) {
+      changedPostIds.push(question.postId);
+      return question;
+    }
+    // Same comments in a new order, so an upvote guess keeps its single one
+    return refreshed;
   });
-  const commentsArrays = await Promise.all(commentPromises);
-  const commentsMap = new Map<string, RedditComment['data'][]>();
-  for (let i = 0; i < posts.length; i++) {
-    const post = posts[i];
-    const comments = commentsArrays[i];
-    if (post && comments && comments.length > 0) commentsMap.set(post.id, comments);
+  return { quiz: quizOut, changedPostIds };
+}
+
+/** Listing posts considered per source subreddit for a which-subreddit question */
+const SUBREDDIT_QUESTION_POST_LIMIT = 25;
+
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    const temp = shuffled[i]!;
+    shuffled[i] = shuffled[j]!;
+    shuffled[j] = temp;
   }
-  const sortedPosts = [...posts].sort(
-    (a, b) => getContentLength(a, commentsMap) - getContentLength(b, commentsMap)
+  return shuffled;
+}
+
+/**
+ * Build up to `count` "which subreddit is this from?" questions from posts in other rotation
+ * subreddits (one per source), using the usual post filters and skipping posts that name
+ * their subreddit. Each offers config.optionsPerQuestion rotation subreddits as answers,
+ * the quiz's own subreddit included as a decoy. Sources that fail to load are skipped.
+ */
+export async function fetchSubredditQuestions(
+  homeSubreddit: string,
+  count: number,
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG,
+  excludePostIds: string[] = []
+): Promise<WhichSubredditQuestion[]> {
+  if (count <= 0) return [];
+  const rotation = await getActiveRotation();
+  if (rotation.length < config.optionsPerQuestion) return [];
+  const excludeSet = new Set(excludePostIds);
+  const sources = shuffle(
+    rotation.filter((sub) => sub.toLowerCase() !== homeSubreddit.toLowerCase())
   );
-  const enrichedPosts = await enrichPostsWithVideoUrls(sortedPosts);
-  const questions = transformToQuizFormat(enrichedPosts, commentsMap);
-  return questions[0] ?? null;
+
+  const questions: WhichSubredditQuestion[] = [];
+  for (const source of sources) {
+    if (questions.length >= count) break;
+    try {
+      const name = source.toLowerCase();
+      const [{ source: listingSource }, safetyRules] = await Promise.all([
+        getListingSource(source),
+        getContentSafetyRules(source),
+      ]);
+      const posts = await fetchSubredditPosts(source, SUBREDDIT_QUESTION_POST_LIMIT, listingSource);
+      const post = posts.find(
+        (p) =>
+          !excludeSet.has(p.id) &&
+          !p.title.toLowerCase().includes(name) &&
+          !(p.selftext ?? '').toLowerCase().includes(name) &&
+          !findUnsafeContent([p.title, p.selftext ?? ''], safetyRules)
+      );
+      if (!post) continue;
+      const [enriched] = await enrichPostsWithVideoUrls([post]);
+      // The quiz's own subreddit is always a decoy; the rest are drawn from the rotation
+      const home = homeSubreddit.toLowerCase();
+      const decoys = [
+        homeSubreddit,
+        ...shuffle(rotation.filter((sub) => sub !== source && sub.toLowerCase() !== home)),
+      ].slice(0, config.optionsPerQuestion - 1);
+      questions.push({
+        ...toQuestionBase(enriched ?? post),
+        type: 'which-subreddit',
+        comments: [],
+        subreddit: source,
+        subredditOptions: [source, ...decoys],
+        listingSource: formatListingSource(listingSource),
+      });
+    } catch (error) {
+      console.warn(`Skipping r/${source} for which-subreddit questions:`, error);
+    }
+  }
+  return questions;
+}
+
+/**
+ * Swap which-subreddit questions into top-comment slots spread evenly through the quiz
+ */
+function insertSubredditQuestions(
+  quiz: QuizQuestion[],
+  subredditQuestions: WhichSubredditQuestion[]
+): QuizQuestion[] {
+  const topCommentSlots = quiz
+    .map((q, i) => (q.type == null || q.type === 'top-comment' ? i : -1))
+    .filter((i) => i >= 0);
+  const quizOut = [...quiz];
+  spreadPositions(topCommentSlots.length, subredditQuestions.length).forEach((slot, i) => {
+    quizOut[topCommentSlots[slot]!] = subredditQuestions[i]!;
+  });
+  return quizOut;
 }
 
 /**
  * Fetch quiz data for a subreddit.
- * Fetches more candidate posts so we still get 5 questions after filtering
- * (NSFW, stickied, mod, locked, crosspost, and "clear winner" comment requirement).
- * Among qualifying posts, picks the 5 with shortest OP + top 3 comments to reduce scrolling.
+ * Fetches more candidate posts so we still get config.questionsPerQuiz questions after filtering
+ * (NSFW, stickied, mod, locked, crosspost, "clear winner" comment requirement, quality rejections).
+ * Qualifying posts are ranked by the subreddit's quality scorers (see scoring.ts).
+ * Posts in excludePostIds (mod-banned) are never used.
+ * config.whichSubredditQuestions of the questions are swapped for posts from other subreddits.
  */
-export async function fetchQuizData(subreddit: string): Promise<QuizQuestion[]> {
-  const posts = await fetchSubredditPosts(subreddit);
+export async function fetchQuizData(
+  subreddit: string,
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG,
+  excludePostIds: string[] = []
+): Promise<QuizQuestion[]> {
+  const excludeSet = new Set(excludePostIds);
+  const { source } = await getListingSource(subreddit);
+  const [{ posts, scanned }, filter] = await Promise.all([
+    scanSubredditPosts(subreddit, candidatePostLimit(config), source, excludeSet),
+    getSettleFilter(),
+  ]);
 
-  if (!posts || posts.length === 0) {
+  if (scanned === 0) {
     throw new Error(
       `No posts found in r/${subreddit}. The subreddit may not exist, may be private, or may not have any posts.`
     );
   }
-
-  // Fetch comments for each post in parallel
-  // Note: getComments needs the full post ID in t3_xxxxx format
-  // We only need 3 comments per post, so fetch 5 to have some buffer
-  const commentPromises = posts.map((post) => {
-    // Get the original post ID (might be stored in originalId or we need to reconstruct it)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- post may have originalId from cache
-    const postId = (post as any).originalId ?? post.id;
-    // Ensure it's in t3_ format for getComments
-    const fullPostId = postId.startsWith('t3_') ? postId : `t3_${postId}`;
-
-    return fetchPostComments(subreddit, fullPostId, 5).catch((error) => {
-      console.error(`Failed to fetch comments for post ${post.id}:`, error);
-      return []; // Return empty array on error - post will be skipped
-    });
-  });
-
-  const commentsArrays = await Promise.all(commentPromises);
-
-  // Create a map of postId -> comments
-  // Use the normalized post.id (without t3_ prefix) as the key
-  const commentsMap = new Map<string, RedditComment['data'][]>();
-  for (let i = 0; i < posts.length; i++) {
-    const post = posts[i];
-    const comments = commentsArrays[i];
-    if (post && comments && comments.length > 0) {
-      commentsMap.set(post.id, comments);
-    }
+  // The subreddit is up but nothing has settled yet (see getSkipReason)
+  if (posts.length === 0) {
+    throw new Error(
+      `No settled posts in r/${subreddit}: none of the ${scanned} posts checked in its ${formatListingSource(source)} listing passed the post filters (at least ${minPostAgeHours(source, filter)}h old with ${filter.minComments}+ comments, not NSFW/stickied/mod/locked/crosspost).`
+    );
   }
 
-  // Prefer shortest OP + comments to reduce scrolling; pick 5 from the shortest qualifying posts
-  const sortedPosts = [...posts].sort(
-    (a, b) => getContentLength(a, commentsMap) - getContentLength(b, commentsMap)
+  const [{ commentsMap }, { weights }, safetyRules] = await Promise.all([
+    fetchCommentsMap(subreddit, posts, config),
+    getScorerWeights(subreddit),
+    getContentSafetyRules(subreddit),
+  ]);
+  const rankedPosts = rankPosts(posts, commentsMap, config, weights);
+  const enrichedPosts = await enrichPostsWithVideoUrls(rankedPosts);
+  const quizQuestions = withListingSource(
+    transformToQuizFormat(enrichedPosts, commentsMap, config, safetyRules),
+    source
   );
-  const enrichedPosts = await enrichPostsWithVideoUrls(sortedPosts);
-  const quizQuestions = transformToQuizFormat(enrichedPosts, commentsMap);
 
-  if (quizQuestions.length < 5) {
+  if (quizQuestions.length < config.questionsPerQuiz) {
     throw new Error(
       quizQuestions.length === 0
-        ? `Could not generate quiz questions for r/${subreddit}. Posts may be filtered out (NSFW, stickied, mod, locked, crosspost) or lack enough comments with a clear top answer.`
-        : `Could not find 5 qualifying questions for r/${subreddit}. Only ${quizQuestions.length} passed filters (NSFW/stickied/mod/locked/crosspost/clear-winner). Try another subreddit or time.`
+        ? `Could not generate quiz questions for r/${subreddit}. Posts may be filtered out (NSFW, stickied, mod, locked, crosspost, quality) or lack enough comments with a clear top answer.`
+        : `Could not find ${config.questionsPerQuiz} qualifying questions for r/${subreddit}. Only ${quizQuestions.length} passed filters (NSFW/stickied/mod/locked/crosspost/clear-winner/quality). Try another subreddit or time.`
     );
   }
 
-  return quizQuestions;
+  const subredditQuestions = await fetchSubredditQuestions(
+    subreddit,
+    config.whichSubredditQuestions,
+    config,
+    excludePostIds
+  );
+  return insertSubredditQuestions(quizQuestions, subredditQuestions);
+}
+
+/**
+ * Explain quiz selection for a subreddit: every listing post with its per-scorer breakdown,
+ * why it was rejected, and whether it would be picked. Fetches fresh data; nothing is cached.
+ */
+export async function explainQuizSelection(
+  subreddit: string,
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG
+): Promise<QualityDebugResponse> {
+  const { source } = await getListingSource(subreddit);
+  const [posts, { weights }, filter, safetyRules] = await Promise.all([
+    fetchSubredditPostsWithDevvitAPI(subreddit, candidatePostLimit(config), source),
+    getScorerWeights(subreddit),
+    getSettleFilter(),
+    getContentSafetyRules(subreddit),
+  ]);
+  const eligible = posts.filter((post) => getPostRejection(post, source, filter) == null);
+  const { commentsMap, droppedOptions } = await fetchCommentsMap(subreddit, eligible, config);
+  const scored = scorePosts(eligible, commentsMap, config, weights);
+  const acceptedPosts = scored.filter((s) => s.rejection == null).map((s) => s.candidate.post);
+  const selectedIds = new Set(
+    transformToQuizFormat(acceptedPosts, commentsMap, config, safetyRules).map((q) => q.postId)
+  );
+
+  const withDroppedOptions = (postId: string) => {
+    const dropped = droppedOptions.get(postId);
+    return dropped ? { droppedOptions: dropped } : {};
+  };
+  const toBreakdown = (post: RedditPost['data']): CandidateBreakdown => ({
+    postId: post.id,
+    title: post.title,
+    permalink: post.permalink,
+    rejection:
+      getPostRejection(post, source, filter) ??
+      getCommentRejection(commentsMap.get(post.id) ?? [], config),
+    scores: {},
+    total: null,
+    selected: false,
+    ...withDroppedOptions(post.id),
+  });
+  const scoredIds = new Set(scored.map((s) => s.candidate.post.id));
+  const candidates: CandidateBreakdown[] = [
+    ...scored.map(({ candidate, scores, total, rejection: scoreRejection }) => {
+      const rejection =
+        scoreRejection ??
+        getSafetyRejection(candidate.post, candidate.options, safetyRules, config);
+      return {
+        postId: candidate.post.id,
+        title: candidate.post.title,
+        permalink: candidate.post.permalink,
+        rejection,
+        scores,
+        total: rejection == null ? total : null,
+        difficulty: marginDifficulty(candidate.options),
+        selected: selectedIds.has(candidate.post.id),
+        ...withDroppedOptions(candidate.post.id),
+      };
+    }),
+    ...posts.filter((post) => !scoredIds.has(post.id)).map(toBreakdown),
+  ];
+  return {
+    subreddit,
+    listingSource: formatListingSource(source),
+    settleFilter: filter,
+    weights,
+    candidates,
+  };
 }
@@ -1,25 +1,79 @@
 import { redis } from '@devvit/web/server';
-import type { QuizQuestion } from '../../shared/types/api';
+import type { QuestionReplacement, QuizQuestion, ReplacementReason } from '../../shared/types/api';
+import {
+  DEFAULT_QUIZ_CONFIG,
+  isDefaultQuizConfig,
+  type QuizConfig,
+} from '../../shared/config/quiz';
+import {
+  fetchSubredditQuestions,
+  getReplacementQuestion,
+  recheckCommentLeaders,
+  toQuestionType,
+} from './quiz';
+import { getBannedPostIds, getReplacedPostIds } from './reports';
+
+/**
+ * Question type counts and the letter each adds to a cache key when it isn't the default
+ * (keeps keys cached before question types existed)
+ */
+const TYPE_COUNT_KEY_SUFFIXES = [
+  ['upvoteGuessQuestions', 'u'],
+  ['rankCommentsQuestions', 'r'],
+  ['whichSubredditQuestions', 's'],
+  ['guessTitleQuestions', 't'],
+] as const;
 
 /**
  * Generate a cache key for a subreddit quiz on a specific date
  * Format: quiz:{subreddit}:{YYYY-MM-DD}
+ * Non-default quiz configs get their own key: quiz:{subreddit}:{YYYY-MM-DD}:{q}q{o}o{gap}g
+ * followed by {n}{letter} for each non-default question type count (see TYPE_COUNT_KEY_SUFFIXES).
+ * The timer doesn't change the questions, so timed quizzes share the untimed quiz's key.
  */
-export function getDailyCacheKey(subreddit: string, date?: string): string {
+export function getDailyCacheKey(subreddit: string, date?: string, config?: QuizConfig): string {
   const dateStr = date || new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  return `quiz:${subreddit}:${dateStr}`;
+  const baseKey = `quiz:${subreddit}:${dateStr}`;
+  if (
+    !config ||
+    isDefaultQuizConfig({ ...config, secondsPerQuestion: DEFAULT_QUIZ_CONFIG.secondsPerQuestion })
+  ) {
+    return baseKey;
+  }
+  const typeCounts = TYPE_COUNT_KEY_SUFFIXES.filter(
+    ([field]) => config[field] !== DEFAULT_QUIZ_CONFIG[field]
+  )
+    .map(([field, letter]) => `${config[field]}${letter}`)
+    .join('');
+  return `${baseKey}:${config.questionsPerQuiz}q${config.optionsPerQuestion}o${config.minUpvoteGap}g${typeCounts}`;
+}
+
+/**
+ * Record of questions swapped out of a cached quiz, kept next to it with the same lifetime
+ * Format: replacements:{quiz cache key}
+ */
+function replacementsKey(cacheKey: string): string {
+  return `replacements:${cacheKey}`;
+}
+
+function cacheExpiration(): Date {
+  const expiration = new Date();
+  expiration.setDate(expiration.getDate() + 30);
+  return expiration;
 }
 
 /**
  * Get cached quiz data from Redis
  * @param subreddit - The subreddit name
  * @param date - Optional date string (YYYY-MM-DD). If not provided, uses today's date.
+ * @param config - Optional quiz config; non-default configs are cached separately.
  */
 export async function getCachedQuiz(
   subreddit: string,
-  date?: string
+  date?: string,
+  config?: QuizConfig
 ): Promise<QuizQuestion[] | null> {
-  const cacheKey = getDailyCacheKey(subreddit, date);
+  const cacheKey = getDailyCacheKey(subreddit, date, config);
   const cachedData = await redis.get(cacheKey);
 
   if (!cachedData) {
@@ -40,19 +94,19 @@ export async function getCachedQuiz(
  * @param subreddit - The subreddit name
  * @param quizData - The quiz data to cache
  * @param date - Optional date string (YYYY-MM-DD). If not provided, uses today's date.
+ * @param config - Optional quiz config; non-default configs are cached separately.
  */
 export async function cacheQuiz(
   subreddit: string,
   quizData: QuizQuestion[],
-  date?: string
+  date?: string,
+  config?: QuizConfig
 ): Promise<void> {
-  const cacheKey = getDailyCacheKey(subreddit, date);
-  // Set expiration to 30 days from now (allows users to replay old posts)
-  const expiration = new Date();
-  expiration.setDate(expiration.getDate() + 30);
+  const cacheKey = getDailyCacheKey(subreddit, date, config);
 
   try {
-    await redis.set(cacheKey, JSON.stringify(quizData), { expiration });
+    // Expires 30 days from now (allows users to replay old posts)
+    await redis.set(cacheKey, JSON.stringify(quizData), { expiration: cacheExpiration() });
   } catch (error) {
     console.error(`Failed to cache quiz data for ${subreddit}:`, error);
     // Don't throw - caching failure shouldn't break the request
@@ -67,7 +121,7 @@ export async function cacheQuiz(
 export async function clearCachedQuiz(subreddit: string, date?: string): Promise<void> {
   const cacheKey = getDailyCacheKey(subreddit, date);
   try {
-    await redis.del(cacheKey);
+    await redis.del(cacheKey, replacementsKey(cacheKey));
     console.log(`Cleared cache for r/${subreddit}${date ? ` (date: ${date})` : ' (today)'}`);
   } catch (error) {
     console.error(`Failed to clear cache for ${subreddit}:`, error);
@@ -75,96 +129,167 @@ export async function clearCachedQuiz(subreddit: string, date?: string): Promise
   }
 }
 
-const SKIP_SUBREDDITS_KEY = 'skip_subreddits';
-
 /**
- * Subreddits that failed to load (banned, private, etc.) so we try the next in rotation
+ * Questions swapped out of a cached quiz, oldest first
  */
-export async function isSubredditSkipped(subreddit: string): Promise<boolean> {
-  const raw = await redis.get(SKIP_SUBREDDITS_KEY);
-  if (!raw) return false;
+export async function getQuizReplacements(
+  subreddit: string,
+  date?: string,
+  config?: QuizConfig
+): Promise<QuestionReplacement[]> {
+  const raw = await redis.get(replacementsKey(getDailyCacheKey(subreddit, date, config)));
+  if (!raw) return [];
   try {
-    const list = JSON.parse(raw) as string[];
-    return Array.isArray(list) && list.includes(subreddit);
+    const list = JSON.parse(raw) as QuestionReplacement[];
+    return Array.isArray(list) ? list : [];
   } catch {
-    return false;
+    return [];
   }
 }
 
-export async function addSubredditToSkipList(subreddit: string): Promise<void> {
-  const raw = await redis.get(SKIP_SUBREDDITS_KEY);
-  const list: string[] = raw ? (JSON.parse(raw) as string[]) : [];
-  if (!Array.isArray(list)) return;
-  const normalized = subreddit.trim();
-  if (!normalized || list.includes(normalized)) return;
-  list.push(normalized);
-  await redis.set(SKIP_SUBREDDITS_KEY, JSON.stringify(list));
-  console.log(`Added r/${normalized} to skip list (banned/unavailable)`);
+/**
+ * Swap each question whose post has a reason in `reasons` for a fresh one from the same
+ * subreddit, never picking a post in `excludeIds`. A question with no available replacement
+ * is left in place. Returns the new quiz and the swaps made.
+ */
+async function swapQuestions(
+  subreddit: string,
+  quiz: QuizQuestion[],
+  reasons: Map<string, ReplacementReason>,
+  excludeIds: string[],
+  config?: QuizConfig
+): Promise<{ quiz: QuizQuestion[]; replacements: QuestionReplacement[] }> {
+  const quizOut = [...quiz];
+  const replacements: QuestionReplacement[] = [];
+  for (let i = 0; i < quizOut.length; i++) {
+    const original = quizOut[i]!;
+    const reason = reasons.get(original.postId);
+    if (!reason) continue;
+    const exclude = [...quizOut.map((q) => q.postId), ...excludeIds, ...reasons.keys()];
+    // Which-subreddit questions are replaced with another post from a different subreddit
+    const replacement =
+      original.type === 'which-subreddit'
+        ? ((await fetchSubredditQuestions(subreddit, 1, config, exclude))[0] ?? null)
+        : await getReplacementQuestion(subreddit, exclude, config);
+    if (!replacement) {
+      console.warn(`No replacement found for question ${original.postId} in r/${subreddit}`);
+      continue;
+    }
+    // Keep the quiz's mix of question types where the replacement allows it
+    quizOut[i] = toQuestionType(replacement, original.type ?? 'top-comment') ?? replacement;
+    replacements.push({
+      originalPostId: original.postId,
+      originalTitle: original.title,
+      replacementPostId: replacement.postId,
+      replacementTitle: replacement.title,
+      reason,
+      replacedAt: new Date().toISOString(),
+    });
+  }
+  return { quiz: quizOut, replacements };
 }
 
-const REPLACED_POSTS_KEY = 'replaced_posts';
-const REPORT_THRESHOLD = 3;
-
-function reportKey(postId: string): string {
-  return `report:${postId}`;
+/**
+ * Swap replaced/banned questions in a quiz for fresh ones from the same subreddit.
+ * `previous` lists earlier swaps so their originals aren't picked again. A flagged question
+ * with no available replacement is left in place. Returns the new quiz and the new swaps.
+ */
+export async function replaceFlaggedQuestions(
+  subreddit: string,
+  quiz: QuizQuestion[],
+  previous: QuestionReplacement[],
+  config?: QuizConfig
+): Promise<{ quiz: QuizQuestion[]; replacements: QuestionReplacement[] }> {
+  const [replacedIds, bannedIds] = await Promise.all([getReplacedPostIds(), getBannedPostIds()]);
+  const reasons = new Map<string, ReplacementReason>([
+    ...replacedIds.map((id) => [id, 'reported'] as const),
+    ...bannedIds.map((id) => [id, 'banned'] as const),
+  ]);
+  if (!quiz.some((q) => reasons.has(q.postId))) return { quiz, replacements: [] };
+  return swapQuestions(
+    subreddit,
+    quiz,
+    reasons,
+    previous.map((r) => r.originalPostId),
+    config
+  );
 }
 
 /**
- * Post IDs that have been replaced (enough user reports as inappropriate)
+ * Re-verify a quiz against live comment scores before it's frozen (see recheckCommentLeaders):
+ * upvotes are refreshed and questions whose top comment changed are swapped for fresh ones,
+ * or dropped when no replacement is available. Returns the new quiz and the swaps made.
  */
-export async function getReplacedPostIds(): Promise<string[]> {
-  const raw = await redis.get(REPLACED_POSTS_KEY);
-  if (!raw) return [];
-  try {
-    const list = JSON.parse(raw) as string[];
-    return Array.isArray(list) ? list : [];
-  } catch {
-    return [];
-  }
-}
+export async function replaceUnsettledQuestions(
+  subreddit: string,
+  quiz: QuizQuestion[],
+  previous: QuestionReplacement[],
+  config?: QuizConfig
+): Promise<{ quiz: QuizQuestion[]; replacements: QuestionReplacement[] }> {
+  const { quiz: rechecked, changedPostIds } = await recheckCommentLeaders(subreddit, quiz, config);
+  if (changedPostIds.length === 0) return { quiz: rechecked, replacements: [] };
 
-export async function addPostToReplaced(postId: string): Promise<void> {
-  const normalized = postId.trim();
-  if (!normalized) return;
-  const ids = await getReplacedPostIds();
-  if (ids.includes(normalized)) return;
-  ids.push(normalized);
-  await redis.set(REPLACED_POSTS_KEY, JSON.stringify(ids));
-  console.log(`Added post ${normalized} to replaced list (inappropriate reports)`);
+  const [replacedIds, bannedIds] = await Promise.all([getReplacedPostIds(), getBannedPostIds()]);
+  const reasons = new Map<string, ReplacementReason>(
+    changedPostIds.map((id) => [id, 'leader-changed'] as const)
+  );
+  const { quiz: swapped, replacements } = await swapQuestions(
+    subreddit,
+    rechecked,
+    reasons,
+    [...previous.map((r) => r.originalPostId), ...replacedIds, ...bannedIds],
+    config
+  );
+  const dropped = swapped.filter((q) => reasons.has(q.postId));
+  if (dropped.length > 0) {
+    console.warn(
+      `Dropped ${dropped.length} question(s) from r/${subreddit} whose top comment changed: ${dropped.map((q) => q.postId).join(', ')}`
+    );
+  }
+  return { quiz: swapped.filter((q) => !reasons.has(q.postId)), replacements };
 }
 
 /**
- * Add a report for a post. If reporterId is provided, each user is counted once per post;
- * otherwise each request counts (anonymous). Storage is always a list of reporter IDs.
- * When report count reaches threshold, adds post to replaced list.
- * Returns the current report count for this post.
+ * Swap replaced/banned questions out of a cached quiz and persist the result, so every
+ * player of that quiz sees the same set and Reddit is only hit once per flagged question.
+ * Each swap is recorded (see getQuizReplacements); unreplaced ones are retried next request.
  */
-export async function incrementReportCount(
-  postId: string,
-  reporterId?: string | null
-): Promise<number> {
-  const normalized = postId.trim();
-  if (!normalized) return 0;
-  const key = reportKey(normalized);
-  const raw = await redis.get(key);
-  let list: string[] = raw ? (JSON.parse(raw) as string[]) : [];
-  if (!Array.isArray(list)) list = [];
-
-  const id =
-    reporterId != null && String(reporterId).trim() !== ''
-      ? String(reporterId).trim()
-      : `__anon_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-  if (id.startsWith('__anon_')) {
-    list.push(id);
-  } else {
-    if (list.includes(id)) return list.length;
-    list.push(id);
+export async function applyQuestionReplacements(
+  subreddit: string,
+  quiz: QuizQuestion[],
+  date?: string,
+  config?: QuizConfig
+): Promise<QuizQuestion[]> {
+  const records = await getQuizReplacements(subreddit, date, config);
+  const { quiz: quizOut, replacements } = await replaceFlaggedQuestions(
+    subreddit,
+    quiz,
+    records,
+    config
+  );
+  if (replacements.length === 0) return quizOut;
+
+  // Another request may have replaced the same questions while we fetched; keep its set
+  const latest = await getCachedQuiz(subreddit, date, config);
+  if (latest && replacements.some((r) => !latest.some((q) => q.postId === r.originalPostId))) {
+    return latest;
   }
-  await redis.set(key, JSON.stringify(list));
-  if (list.length >= REPORT_THRESHOLD) {
-    await addPostToReplaced(normalized);
+
+  const cacheKey = getDailyCacheKey(subreddit, date, config);
+  try {
+    await redis.set(cacheKey, JSON.stringify(quizOut), { expiration: cacheExpiration() });
+    await redis.set(replacementsKey(cacheKey), JSON.stringify([...records, ...replacements]), {
+      expiration: cacheExpiration(),
+    });
+    for (const r of replacements) {
+      console.log(
+        `Replaced question ${r.originalPostId} with ${r.replacementPostId} in ${cacheKey} (${r.reason})`
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to persist replacements for ${subreddit}:`, error);
   }
-  return list.length;
+  return quizOut;
 }
 
 /**
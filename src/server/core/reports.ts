@@ -0,0 +1,183 @@
+import { redis } from '@devvit/web/server';
+import type { ReportDecision, ReportedQuestion } from '../../shared/types/api';
+
+/** Post IDs replaced in served quizzes after a mod confirmed the reports */
+const REPLACED_POSTS_KEY = 'replaced_posts';
+
+/**
+ * Posts that have been reported at least once and not yet resolved.
+ * Hash of postId -> JSON { title, subreddit, firstReportedAt, lastReportedAt }
+ */
+const REPORTED_POSTS_KEY = 'reported_posts';
+
+/** Reports needed before a post shows up in the mod review queue; stored so admins can change it */
+const REPORT_THRESHOLD_KEY = 'report_threshold';
+export const DEFAULT_REPORT_THRESHOLD = 3;
+const MAX_REPORT_THRESHOLD = 100;
+
+/** Posts a mod reviewed and kept; further reports are ignored. Hash of postId -> dismissedAt */
+const REPORT_WHITELIST_KEY = 'report_whitelist';
+
+/**
+ * Posts a mod banned: never used in a quiz again, including newly generated ones.
+ * Hash of postId -> JSON { title, subreddit, bannedAt }
+ */
+const BANNED_POSTS_KEY = 'banned_posts';
+
+function reportKey(postId: string): string {
+  return `report:${postId}`;
+}
+
+type StoredReport = Omit<ReportedQuestion, 'postId' | 'reportCount'>;
+
+function parseJson<T>(raw: string | undefined | null): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getReportThreshold(): Promise<number> {
+  const raw = await redis.get(REPORT_THRESHOLD_KEY);
+  const threshold = raw != null ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(threshold) && threshold >= 1 ? threshold : DEFAULT_REPORT_THRESHOLD;
+}
+
+export async function setReportThreshold(threshold: number): Promise<number> {
+  const clamped = Math.min(Math.max(1, Math.round(threshold)), MAX_REPORT_THRESHOLD);
+  await redis.set(REPORT_THRESHOLD_KEY, clamped.toString());
+  return clamped;
+}
+
+/**
+ * Post IDs that have been replaced (reports confirmed by a mod)
+ */
+export async function getReplacedPostIds(): Promise<string[]> {
+  const raw = await redis.get(REPLACED_POSTS_KEY);
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw) as string[];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function addPostToReplaced(postId: string): Promise<void> {
+  const normalized = postId.trim();
+  if (!normalized) return;
+  const ids = await getReplacedPostIds();
+  if (ids.includes(normalized)) return;
+  ids.push(normalized);
+  await redis.set(REPLACED_POSTS_KEY, JSON.stringify(ids));
+  console.log(`Added post ${normalized} to replaced list (reports confirmed)`);
+}
+
+export async function getBannedPostIds(): Promise<string[]> {
+  return Object.keys(await redis.hGetAll(BANNED_POSTS_KEY));
+}
+
+async function getReporters(postId: string): Promise<string[]> {
+  const list = parseJson<string[]>(await redis.get(reportKey(postId)));
+  return Array.isArray(list) ? list : [];
+}
+
+/**
+ * Add a report for a post. If reporterId is provided, each user is counted once per post;
+ * otherwise each request counts (anonymous). Storage is always a list of reporter IDs.
+ * Reports on whitelisted (dismissed) posts are ignored. Posts reaching the report threshold
+ * show up in the mod review queue; nothing is replaced until a mod confirms.
+ * Returns the current report count for this post.
+ */
+export async function incrementReportCount(
+  postId: string,
+  reporterId?: string | null,
+  details?: { title: string; subreddit: string | null }
+): Promise<number> {
+  const normalized = postId.trim();
+  if (!normalized) return 0;
+  if (await redis.hGet(REPORT_WHITELIST_KEY, normalized)) return 0;
+
+  const list = await getReporters(normalized);
+  const id =
+    reporterId != null && String(reporterId).trim() !== ''
+      ? String(reporterId).trim()
+      : `__anon_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+  if (!id.startsWith('__anon_') && list.includes(id)) return list.length;
+  list.push(id);
+  await redis.set(reportKey(normalized), JSON.stringify(list));
+
+  const now = new Date().toISOString();
+  const existing = parseJson<StoredReport>(await redis.hGet(REPORTED_POSTS_KEY, normalized));
+  const report: StoredReport = {
+    title: existing?.title ?? details?.title ?? '(unknown question)',
+    subreddit: existing?.subreddit ?? details?.subreddit ?? null,
+    firstReportedAt: existing?.firstReportedAt ?? now,
+    lastReportedAt: now,
+  };
+  await redis.hSet(REPORTED_POSTS_KEY, { [normalized]: JSON.stringify(report) });
+
+  if (list.length === (await getReportThreshold())) {
+    console.log(`Post ${normalized} reached the report threshold; queued for mod review`);
+  }
+  return list.length;
+}
+
+/**
+ * Reported posts at or above the current threshold, most reported first.
+ */
+export async function getReviewQueue(): Promise<ReportedQuestion[]> {
+  const [all, threshold] = await Promise.all([
+    redis.hGetAll(REPORTED_POSTS_KEY),
+    getReportThreshold(),
+  ]);
+  const reported = await Promise.all(
+    Object.entries(all).map(async ([postId, raw]) => {
+      const report = parseJson<StoredReport>(raw);
+      if (!report) return null;
+      return { postId, reportCount: (await getReporters(postId)).length, ...report };
+    })
+  );
+  const queue = reported.filter(
+    (r): r is ReportedQuestion => r != null && r.reportCount >= threshold
+  );
+  return queue.sort(
+    (a, b) => b.reportCount - a.reportCount || a.firstReportedAt.localeCompare(b.firstReportedAt)
+  );
+}
+
+/**
+ * Resolve a reported post:
+ * - confirm: replace it wherever it's served
+ * - dismiss: reset its reports and whitelist it so further reports are ignored
+ * - ban: never use it in a quiz again (also excluded when generating new quizzes)
+ * Returns false if the post wasn't reported.
+ */
+export async function resolveReport(postId: string, decision: ReportDecision): Promise<boolean> {
+  const normalized = postId.trim();
+  const report = parseJson<StoredReport>(await redis.hGet(REPORTED_POSTS_KEY, normalized));
+  if (!report) return false;
+
+  const now = new Date().toISOString();
+  if (decision === 'confirm') {
+    await addPostToReplaced(normalized);
+  } else if (decision === 'dismiss') {
+    await redis.hSet(REPORT_WHITELIST_KEY, { [normalized]: now });
+  } else {
+    await redis.hSet(BANNED_POSTS_KEY, {
+      [normalized]: JSON.stringify({
+        title: report.title,
+        subreddit: report.subreddit,
+        bannedAt: now,
+      }),
+    });
+  }
+  await Promise.all([
+    redis.del(reportKey(normalized)),
+    redis.hDel(REPORTED_POSTS_KEY, [normalized]),
+  ]);
+  console.log(`Resolved reports for post ${normalized}: ${decision}`);
+  return true;
+}
@@ -0,0 +1,92 @@
+import { redis } from '@devvit/web/server';
+import { APPROVED_SUBREDDITS } from '../../shared/config/subreddits';
+import type { RotationEntry } from '../../shared/types/api';
+
+/**
+ * Mod-editable subreddit rotation, in order.
+ * Seeded from APPROVED_SUBREDDITS the first time it is read.
+ */
+const ROTATION_KEY = 'rotation_subreddits';
+
+/** Reddit subreddit names: 3-21 letters, digits or underscores */
+const SUBREDDIT_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_]{2,20}$/;
+
+function seedRotation(): RotationEntry[] {
+  return APPROVED_SUBREDDITS.map((name) => ({ name, paused: false }));
+}
+
+export function normalizeSubredditName(name: string): string {
+  return name.trim().replace(/^\/?r\//i, '');
+}
+
+export function isValidSubredditName(name: string): boolean {
+  return SUBREDDIT_NAME_RE.test(name);
+}
+
+/**
+ * Full rotation (including paused entries), in rotation order.
+ */
+export async function getRotation(): Promise<RotationEntry[]> {
+  const raw = await redis.get(ROTATION_KEY);
+  if (!raw) return seedRotation();
+  try {
+    const list = JSON.parse(raw) as RotationEntry[];
+    return Array.isArray(list) ? list : seedRotation();
+  } catch (error) {
+    console.error('Failed to parse subreddit rotation, using seed default:', error);
+    return seedRotation();
+  }
+}
+
+/**
+ * Subreddit names in the live rotation, skipping paused entries.
+ * Falls back to the seed list if every entry is paused, so the daily quiz never breaks.
+ */
+export async function getActiveRotation(): Promise<string[]> {
+  const active = (await getRotation()).filter((e) => !e.paused).map((e) => e.name);
+  if (active.length === 0) {
+    console.warn('All subreddits in the rotation are paused; using seed default');
+    return [...APPROVED_SUBREDDITS];
+  }
+  return active;
+}
+
+/**
+ * Replace the rotation. Names are normalized (r/ prefix stripped) and de-duplicated
+ * case-insensitively; throws if any name is invalid.
+ */
+export async function setRotation(entries: RotationEntry[]): Promise<RotationEntry[]> {
+  const seen = new Set<string>();
+  const cleaned: RotationEntry[] = [];
+  for (const entry of entries) {
+    const name = normalizeSubredditName(entry.name);
+    if (!isValidSubredditName(name)) {
+      throw new Error(`Invalid subreddit name: ${entry.name}`);
+    }
+    if (seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    cleaned.push({ name, paused: entry.paused });
+  }
+  await redis.set(ROTATION_KEY, JSON.stringify(cleaned));
+  console.log(`Updated subreddit rotation: ${cleaned.length} entries`);
+  return cleaned;
+}
+
+/**
+ * Parse the mod form's one-subreddit-per-line text. Lines starting with "#" are paused;
+ * blank lines are ignored.
+ */
+export function parseRotationText(text: string): RotationEntry[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const paused = line.startsWith('#');
+      return { name: normalizeSubredditName(paused ? line.slice(1) : line), paused };
+    });
+}
+
+export function formatRotationText(entries: RotationEntry[]): string {
+  return entries.map((e) => (e.paused ? `#${e.name}` : e.name)).join('\n');
+}
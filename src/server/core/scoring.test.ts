@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SCORER_WEIGHTS, type ScorerWeights } from '../../shared/config/scoring';
+import type { RedditPost } from './quiz';
+import { getScorerWeights, rankCandidates, scoreCandidate, type ScoringCandidate } from './scoring';
+
+const weightsHash = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('@devvit/web/server', () => ({
+  context: {},
+  reddit: {},
+  redis: { hGet: async (_key: string, field: string) => weightsHash.get(field) },
+}));
+
+/** Only the named scorers count */
+function onlyWeights(weights: Partial<ScorerWeights>): ScorerWeights {
+  const off = Object.fromEntries(Object.keys(DEFAULT_SCORER_WEIGHTS).map((name) => [name, 0]));
+  return { ...off, ...weights } as ScorerWeights;
+}
+
+function candidate(id: string, options: [string, number][], hasMedia = false): ScoringCandidate {
+  return {
+    post: { id, title: `Post ${id}`, selftext: '' } as RedditPost['data'],
+    options: options.map(([body, ups], i) => ({
+      id: `${id}-${i}`,
+      body,
+      ups,
+      score: ups,
+      author: null,
+    })),
+    hasMedia,
+  };
+}
+
+describe('scoreCandidate rejections', () => {
+  it('rejects options that only differ in case and punctuation', () => {
+    const scored = scoreCandidate(
+      candidate('a', [
+        ['Same answer!', 300],
+        ['same answer', 100],
+      ]),
+      DEFAULT_SCORER_WEIGHTS
+    );
+    expect(scored.rejection).toBe('duplicateOptions: Two options are identical');
+    expect(scored.scores.duplicateOptions).toBe(0);
+  });
+
+  it("doesn't reject identical text when one option is a GIF", () => {
+    const gif = candidate('a', [
+      ['', 300],
+      ['', 100],
+    ]);
+    gif.options[0]!.gifUrl = 'https://i.giphy.com/a.gif';
+    expect(scoreCandidate(gif, DEFAULT_SCORER_WEIGHTS).rejection).toBeNull();
+  });
+
+  it('rejects options that are just a link', () => {
+    const scored = scoreCandidate(
+      candidate('a', [
+        ['A real answer', 300],
+        ['https://example.com/page', 100],
+        ['[this](https://example.com/other)', 50],
+      ]),
+      DEFAULT_SCORER_WEIGHTS
+    );
+    expect(scored.rejection).toBe('linkOnly: 2 option(s) are just a link');
+  });
+
+  it('reports the first rejecting scorer in scorer order', () => {
+    const scored = scoreCandidate(
+      candidate('a', [
+        ['https://example.com', 300],
+        ['https://example.com', 100],
+      ]),
+      DEFAULT_SCORER_WEIGHTS
+    );
+    expect(scored.rejection).toBe('duplicateOptions: Two options are identical');
+  });
+
+  it('skips a scorer and its rejection when its weight is 0', () => {
+    const scored = scoreCandidate(
+      candidate('a', [
+        ['Same answer', 300],
+        ['Same answer', 100],
+      ]),
+      { ...DEFAULT_SCORER_WEIGHTS, duplicateOptions: 0 }
+    );
+    expect(scored.rejection).toBeNull();
+    expect(scored.scores).not.toHaveProperty('duplicateOptions');
+  });
+});
+
+describe('scoreCandidate weighting', () => {
+  const options: [string, number][] = [
+    ['Top answer', 300],
+    ['Other answer', 100],
+  ];
+
+  it('averages the scores by weight', () => {
+    // Margin (300 - 100) / 300 at weight 1, media 1 at weight 3
+    const scored = scoreCandidate(
+      candidate('a', options, true),
+      onlyWeights({ upvoteMargin: 1, media: 3 })
+    );
+    expect(scored.scores).toEqual({ upvoteMargin: 0.667, media: 1 });
+    expect(scored.total).toBe(0.917);
+  });
+
+  it('moves the total toward the more heavily weighted scorer', () => {
+    const even = scoreCandidate(
+      candidate('a', options),
+      onlyWeights({ upvoteMargin: 1, media: 1 })
+    );
+    const marginHeavy = scoreCandidate(
+      candidate('a', options),
+      onlyWeights({ upvoteMargin: 3, media: 1 })
+    );
+    expect(even.total).toBe(0.333);
+    expect(marginHeavy.total).toBe(0.5);
+  });
+
+  it('scores 0 with every scorer turned off', () => {
+    const scored = scoreCandidate(candidate('a', options), onlyWeights({}));
+    expect(scored).toMatchObject({ scores: {}, total: 0, rejection: null });
+  });
+});
+
+describe('rankCandidates', () => {
+  const weights = onlyWeights({ upvoteMargin: 1, duplicateOptions: 1 });
+
+  it('puts the highest totals first', () => {
+    const ranked = rankCandidates(
+      [
+        candidate('close', [
+          ['Cats', 110],
+          ['Dogs', 100],
+        ]),
+        candidate('clear', [
+          ['Cats', 300],
+          ['Dogs', 100],
+        ]),
+      ],
+      weights
+    );
+    expect(ranked.map((r) => r.candidate.post.id)).toEqual(['clear', 'close']);
+  });
+
+  it('puts rejected candidates last whatever their total', () => {
+    const ranked = rankCandidates(
+      [
+        candidate('duplicate', [
+          ['Cats', 1000],
+          ['cats', 1],
+        ]),
+        candidate('close', [
+          ['Cats', 110],
+          ['Dogs', 100],
+        ]),
+      ],
+      weights
+    );
+    expect(ranked.map((r) => [r.candidate.post.id, r.rejection != null])).toEqual([
+      ['close', false],
+      ['duplicate', true],
+    ]);
+  });
+});
+
+describe('getScorerWeights', () => {
+  beforeEach(() => weightsHash.clear());
+
+  it('uses the defaults for a subreddit without custom weights', async () => {
+    expect(await getScorerWeights('test')).toEqual({
+      weights: DEFAULT_SCORER_WEIGHTS,
+      custom: false,
+    });
+  });
+
+  it('fills in and clamps custom weights', async () => {
+    weightsHash.set('test', JSON.stringify({ media: 4, brevity: 50, postAge: -1 }));
+    expect(await getScorerWeights('Test')).toEqual({
+      weights: { ...DEFAULT_SCORER_WEIGHTS, media: 4, brevity: 10, postAge: 0 },
+      custom: true,
+    });
+  });
+
+  it('falls back to the defaults when the stored weights are unreadable', async () => {
+    weightsHash.set('test', '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await getScorerWeights('test')).toEqual({
+      weights: DEFAULT_SCORER_WEIGHTS,
+      custom: false,
+    });
+  });
+});
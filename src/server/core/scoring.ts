@@ -0,0 +1,192 @@
+import { redis } from '@devvit/web/server';
+import {
+  normalizeScorerWeights,
+  SCORER_NAMES,
+  type ScorerName,
+  type ScorerWeights,
+} from '../../shared/config/scoring';
+import type { RedditComment, RedditPost } from './quiz';
+
+/**
+ * Per-subreddit scorer weights (partial; missing scorers use the defaults).
+ * Hash of subreddit -> JSON Partial<ScorerWeights>
+ */
+const SCORER_WEIGHTS_KEY = 'scorer_weights';
+
+/** A post that passed the hard filters, with the comments that would become its options */
+export type ScoringCandidate = {
+  post: RedditPost['data'];
+  /** Answer options, top comment first */
+  options: RedditComment['data'][];
+  hasMedia: boolean;
+};
+
+type ScorerResult = { score: number; rejection?: string };
+type Scorer = (candidate: ScoringCandidate) => ScorerResult;
+
+export type ScoredCandidate = {
+  candidate: ScoringCandidate;
+  scores: Partial<Record<ScorerName, number>>;
+  total: number;
+  rejection: string | null;
+};
+
+/** Hours after posting by which comment votes have mostly settled */
+const SETTLED_AGE_HOURS = 12;
+
+/** Combined post + options length at which brevity bottoms out */
+const MAX_BRIEF_LENGTH = 3000;
+
+const URL_ONLY_RE = /^\s*(?:\[[^\]]*\]\()?https?:\/\/\S+?\)?\s*$/i;
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Lowercase text with punctuation dropped and whitespace collapsed, for comparing comment bodies
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeText(text).split(' ').filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const SCORERS: Record<ScorerName, Scorer> = {
+  upvoteMargin: ({ options }) => {
+    const [first, second] = options;
+    if (!first || !second) return { score: 0 };
+    return { score: clamp01((first.ups - second.ups) / Math.max(first.ups, 1)) };
+  },
+
+  lengthBalance: ({ options }) => {
+    const lengths = options.map((c) => c.body.length);
+    const longest = Math.max(...lengths, 1);
+    return { score: clamp01(Math.min(...lengths) / longest) };
+  },
+
+  media: ({ hasMedia }) => ({ score: hasMedia ? 1 : 0 }),
+
+  postAge: ({ post }) => {
+    // Unknown age scores in the middle rather than penalizing the post
+    if (!post.created_utc) return { score: 0.5 };
+    const ageHours = (Date.now() / 1000 - post.created_utc) / 3600;
+    return { score: clamp01(ageHours / SETTLED_AGE_HOURS) };
+  },
+
+  duplicateOptions: ({ options }) => {
+    let maxSimilarity = 0;
+    for (let i = 0; i < options.length; i++) {
+      for (let j = i + 1; j < options.length; j++) {
+        const a = options[i]!;
+        const b = options[j]!;
+        if (normalizeText(a.body) === normalizeText(b.body) && !a.gifUrl && !b.gifUrl) {
+          return { score: 0, rejection: 'Two options are identical' };
+        }
+        maxSimilarity = Math.max(maxSimilarity, jaccard(wordSet(a.body), wordSet(b.body)));
+      }
+    }
+    return { score: 1 - maxSimilarity };
+  },
+
+  linkOnly: ({ options }) => {
+    const linkOnly = options.filter((c) => !c.gifUrl && URL_ONLY_RE.test(c.body));
+    if (linkOnly.length > 0) {
+      return { score: 0, rejection: `${linkOnly.length} option(s) are just a link` };
+    }
+    return { score: 1 };
+  },
+
+  brevity: ({ post, options }) => {
+    const length =
+      (post.title ?? '').length +
+      (post.selftext ?? '').length +
+      options.reduce((sum, c) => sum + (c.body ?? '').length, 0);
+    return { score: 1 - clamp01(length / MAX_BRIEF_LENGTH) };
+  },
+};
+
+/**
+ * Run every scorer with a non-zero weight. The total is the weighted average (0-1);
+ * the first scorer that rejects sets the rejection.
+ */
+export function scoreCandidate(
+  candidate: ScoringCandidate,
+  weights: ScorerWeights
+): ScoredCandidate {
+  const scores: Partial<Record<ScorerName, number>> = {};
+  let rejection: string | null = null;
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const name of SCORER_NAMES) {
+    const weight = weights[name];
+    if (weight <= 0) continue;
+    const result = SCORERS[name](candidate);
+    scores[name] = Math.round(result.score * 1000) / 1000;
+    if (result.rejection && !rejection) rejection = `${name}: ${result.rejection}`;
+    weighted += weight * result.score;
+    totalWeight += weight;
+  }
+  const total = totalWeight > 0 ? Math.round((weighted / totalWeight) * 1000) / 1000 : 0;
+  return { candidate, scores, total, rejection };
+}
+
+/**
+ * Score every candidate and return them best first (rejected candidates last).
+ */
+export function rankCandidates(
+  candidates: ScoringCandidate[],
+  weights: ScorerWeights
+): ScoredCandidate[] {
+  return candidates
+    .map((c) => scoreCandidate(c, weights))
+    .sort((a, b) => Number(a.rejection != null) - Number(b.rejection != null) || b.total - a.total);
+}
+
+export async function getScorerWeights(
+  subreddit: string
+): Promise<{ weights: ScorerWeights; custom: boolean }> {
+  const raw = await redis.hGet(SCORER_WEIGHTS_KEY, subreddit.toLowerCase());
+  if (!raw) return { weights: normalizeScorerWeights(), custom: false };
+  try {
+    return {
+      weights: normalizeScorerWeights(JSON.parse(raw) as Partial<ScorerWeights>),
+      custom: true,
+    };
+  } catch (error) {
+    console.error(`Failed to parse scorer weights for r/${subreddit}:`, error);
+    return { weights: normalizeScorerWeights(), custom: false };
+  }
+}
+
+/**
+ * Set a subreddit's weights (merged over the defaults), or clear them with null.
+ */
+export async function setScorerWeights(
+  subreddit: string,
+  weights: Partial<ScorerWeights> | null
+): Promise<ScorerWeights> {
+  const key = subreddit.toLowerCase();
+  if (weights == null) {
+    await redis.hDel(SCORER_WEIGHTS_KEY, [key]);
+    console.log(`Reset scorer weights for r/${subreddit} to defaults`);
+    return normalizeScorerWeights();
+  }
+  const normalized = normalizeScorerWeights(weights);
+  await redis.hSet(SCORER_WEIGHTS_KEY, { [key]: JSON.stringify(normalized) });
+  console.log(`Updated scorer weights for r/${subreddit}`);
+  return normalized;
+}
@@ -0,0 +1,157 @@
+import { redis } from '@devvit/web/server';
+import type { SkippedSubreddit, SkipReason } from '../../shared/types/api';
+
+/** Legacy skip list: JSON array of names with no reason or expiry (migrated on first read) */
+const LEGACY_SKIP_SUBREDDITS_KEY = 'skip_subreddits';
+
+/**
+ * Subreddits that failed to load (banned, private, etc.) so we try the next in rotation.
+ * Hash of subreddit -> JSON { reason, error?, skippedAt, expiresAt }
+ */
+const SKIP_LIST_KEY = 'skip_list';
+
+/** Hours a skipped subreddit stays out of rotation; stored so admins can change it */
+const SKIP_COOLDOWN_KEY = 'skip_cooldown_hours';
+export const DEFAULT_SKIP_COOLDOWN_HOURS = 72;
+const MAX_SKIP_COOLDOWN_HOURS = 24 * 90;
+
+type StoredSkip = Omit<SkippedSubreddit, 'subreddit'>;
+
+/**
+ * Map a quiz fetch error to a skip reason, or null if the error isn't one that means
+ * the subreddit is unavailable (e.g. rate limits or network errors shouldn't skip it).
+ */
+export function getSkipReason(errorMessage: string): SkipReason | null {
+  // Checked first: the subreddit is reachable, its posts just haven't passed the filters yet
+  if (errorMessage.startsWith('No settled posts')) return 'insufficient_questions';
+  if (
+    errorMessage.includes('not found') ||
+    errorMessage.includes('does not exist') ||
+    errorMessage.includes('404')
+  ) {
+    return 'not_found';
+  }
+  if (errorMessage.includes('banned')) return 'banned';
+  if (errorMessage.includes('private')) return 'private';
+  if (errorMessage.includes('restricted')) return 'restricted';
+  if (errorMessage.includes('403') || errorMessage.includes('Forbidden')) return 'forbidden';
+  if (
+    /Could not find \d+ qualifying/.test(errorMessage) ||
+    errorMessage.includes('Could not generate quiz questions')
+  ) {
+    return 'insufficient_questions';
+  }
+  return null;
+}
+
+export async function getSkipCooldownHours(): Promise<number> {
+  const raw = await redis.get(SKIP_COOLDOWN_KEY);
+  const hours = raw != null ? parseFloat(raw) : NaN;
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_SKIP_COOLDOWN_HOURS;
+}
+
+/**
+ * Set how long new skips last. 0 disables expiry (skipped until removed by hand).
+ * Existing entries keep the expiry they were created with.
+ */
+export async function setSkipCooldownHours(hours: number): Promise<number> {
+  const clamped = Math.min(Math.max(0, hours), MAX_SKIP_COOLDOWN_HOURS);
+  await redis.set(SKIP_COOLDOWN_KEY, clamped.toString());
+  return clamped;
+}
+
+/**
+ * Move entries from the old JSON-array skip list into the hash, with an unknown reason
+ * and the current cooldown, so they eventually come back into rotation.
+ */
+async function migrateLegacySkipList(): Promise<void> {
+  const raw = await redis.get(LEGACY_SKIP_SUBREDDITS_KEY);
+  if (!raw) return;
+  try {
+    const list = JSON.parse(raw) as string[];
+    if (Array.isArray(list)) {
+      for (const subreddit of list) {
+        await addSubredditToSkipList(subreddit, 'unknown', 'Skipped before reasons were recorded');
+      }
+    }
+  } catch (error) {
+    console.error('Failed to migrate legacy skip list:', error);
+  }
+  await redis.del(LEGACY_SKIP_SUBREDDITS_KEY);
+}
+
+function parseSkip(raw: string | undefined | null): StoredSkip | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredSkip;
+  } catch {
+    return null;
+  }
+}
+
+function isExpired(entry: StoredSkip, now: number = Date.now()): boolean {
+  return entry.expiresAt != null && new Date(entry.expiresAt).getTime() <= now;
+}
+
+/**
+ * True if the subreddit is skipped and its cooldown hasn't expired.
+ * Expired entries are removed as they're found.
+ */
+export async function isSubredditSkipped(subreddit: string): Promise<boolean> {
+  await migrateLegacySkipList();
+  const entry = parseSkip(await redis.hGet(SKIP_LIST_KEY, subreddit));
+  if (!entry) return false;
+  if (isExpired(entry)) {
+    await redis.hDel(SKIP_LIST_KEY, [subreddit]);
+    console.log(`Skip for r/${subreddit} expired; back in rotation`);
+    return false;
+  }
+  return true;
+}
+
+export async function addSubredditToSkipList(
+  subreddit: string,
+  reason: SkipReason = 'unknown',
+  error?: string
+): Promise<void> {
+  const normalized = subreddit.trim();
+  if (!normalized) return;
+  const cooldownHours = await getSkipCooldownHours();
+  const now = Date.now();
+  const entry: StoredSkip = {
+    reason,
+    ...(error && { error: error.slice(0, 500) }),
+    skippedAt: new Date(now).toISOString(),
+    expiresAt: cooldownHours > 0 ? new Date(now + cooldownHours * 3600 * 1000).toISOString() : null,
+  };
+  await redis.hSet(SKIP_LIST_KEY, { [normalized]: JSON.stringify(entry) });
+  console.log(`Added r/${normalized} to skip list (${reason})`);
+}
+
+export async function removeSubredditFromSkipList(subreddit: string): Promise<boolean> {
+  await migrateLegacySkipList();
+  const removed = await redis.hDel(SKIP_LIST_KEY, [subreddit.trim()]);
+  if (removed > 0) console.log(`Removed r/${subreddit.trim()} from skip list`);
+  return removed > 0;
+}
+
+/**
+ * All active skips, newest first. Expired entries are pruned.
+ */
+export async function getSkippedSubreddits(): Promise<SkippedSubreddit[]> {
+  await migrateLegacySkipList();
+  const all = await redis.hGetAll(SKIP_LIST_KEY);
+  const now = Date.now();
+  const expired: string[] = [];
+  const entries: SkippedSubreddit[] = [];
+  for (const [subreddit, raw] of Object.entries(all)) {
+    const entry = parseSkip(raw);
+    if (!entry || isExpired(entry, now)) {
+      expired.push(subreddit);
+      continue;
+    }
+    entries.push({ subreddit, ...entry });
+  }
+  if (expired.length > 0) await redis.hDel(SKIP_LIST_KEY, expired);
+  return entries.sort((a, b) => b.skippedAt.localeCompare(a.skippedAt));
+}
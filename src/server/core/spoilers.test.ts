@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { RedditComment } from './quiz';
+import { dropSpoilerComments, getSpoilerReason } from './spoilers';
+
+vi.mock('@devvit/web/server', () => ({ context: {}, reddit: {}, redis: {} }));
+
+function comment(id: string, body: string, ups = 10): RedditComment['data'] {
+  return { id, body, ups, author: null, score: ups };
+}
+
+describe('getSpoilerReason', () => {
+  it('flags comments that mention upvotes or karma', () => {
+    expect(getSpoilerReason(comment('a', 'Wow, 10k upvotes for this?'))).toBe('Mentions upvotes');
+    expect(getSpoilerReason(comment('a', 'Free karma right here'))).toBe('Mentions upvotes');
+    expect(getSpoilerReason(comment('a', 'Why is this downvoted'))).toBe('Mentions upvotes');
+  });
+
+  it('flags comments that talk about being the top comment', () => {
+    expect(getSpoilerReason(comment('a', 'Best comment in the thread'))).toBe(
+      'Mentions the top comment'
+    );
+    expect(getSpoilerReason(comment('a', 'This should be the top one'))).toBe(
+      'Mentions the top comment'
+    );
+  });
+
+  it('flags edit notes and award thanks', () => {
+    expect(getSpoilerReason(comment('a', 'Ha!\n\nEdit: typo'))).toBe('Has an edit note');
+    expect(getSpoilerReason(comment('a', 'Ha!\n\n**EDIT 2:** wow'))).toBe('Has an edit note');
+    expect(getSpoilerReason(comment('a', 'Thanks for the gold, kind stranger'))).toBe(
+      'Has an edit note'
+    );
+    expect(getSpoilerReason(comment('a', 'RIP my inbox'))).toBe('Has an edit note');
+  });
+
+  it('flags comments that quote or repeat another option', () => {
+    const option = comment('top', 'My cat would never do something like that.');
+    expect(
+      getSpoilerReason(comment('a', '> my cat would never do something like that\n\nLOL'), [option])
+    ).toBe('Quotes another option');
+    expect(
+      getSpoilerReason(comment('a', 'My cat would never do something like that. Mine would'), [
+        option,
+      ])
+    ).toBe('Quotes another option');
+  });
+
+  it('ignores short quotes and ordinary comments', () => {
+    const option = comment('top', 'Same.');
+    expect(getSpoilerReason(comment('a', '> same\n\nNot me'), [option])).toBeNull();
+    expect(getSpoilerReason(comment('a', 'The top of the hill was windy'))).toBeNull();
+    expect(getSpoilerReason(comment('a', 'I edited this photo myself'))).toBeNull();
+  });
+});
+
+describe('dropSpoilerComments', () => {
+  it('drops spoilers with their reasons and keeps the rest in order', () => {
+    const { comments, dropped } = dropSpoilerComments([
+      comment('top', 'Nobody expects the Spanish Inquisition', 500),
+      comment('edit', 'Great joke\n\nEdit: thanks for the gold', 300),
+      comment('plain', 'I did not expect that', 200),
+      comment('upvotes', 'Take my upvote', 100),
+      comment('other', 'Classic', 50),
+    ]);
+    expect(comments.map((c) => c.id)).toEqual(['top', 'plain', 'other']);
+    expect(dropped).toEqual([
+      { commentId: 'edit', reason: 'Has an edit note' },
+      { commentId: 'upvotes', reason: 'Mentions upvotes' },
+    ]);
+  });
+
+  it('always keeps the top comment, even if it is a spoiler', () => {
+    const { comments, dropped } = dropSpoilerComments([
+      comment('top', 'Edit: wow, this blew up', 500),
+      comment('plain', 'Nice', 100),
+    ]);
+    expect(comments.map((c) => c.id)).toEqual(['top', 'plain']);
+    expect(dropped).toEqual([]);
+  });
+
+  it('drops comments quoting a kept option but not ones quoting a dropped option', () => {
+    const { comments, dropped } = dropSpoilerComments([
+      comment('top', 'The real answer was inside us all along', 500),
+      comment('quote', '> the real answer was inside us all along\n\nDeep', 300),
+      comment('upvotes', 'Upvoted for the pun about the garden gnome', 200),
+      comment('requote', 'the pun about the garden gnome', 100),
+    ]);
+    expect(comments.map((c) => c.id)).toEqual(['top', 'requote']);
+    expect(dropped.map((d) => d.commentId)).toEqual(['quote', 'upvotes']);
+  });
+
+  it('handles an empty list', () => {
+    expect(dropSpoilerComments([])).toEqual({ comments: [], dropped: [] });
+  });
+});
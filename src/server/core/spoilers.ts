@@ -0,0 +1,78 @@
+import type { OptionRejection } from '../../shared/types/api';
+import type { RedditComment } from './quiz';
+import { normalizeText } from './scoring';
+
+/** Comment text that tells players which option won */
+const SPOILER_RULES: readonly { reason: string; re: RegExp }[] = [
+  {
+    reason: 'Mentions upvotes',
+    re: /\b(?:up-?votes?|upvoted|down-?votes?|downvoted|karma)\b/i,
+  },
+  {
+    reason: 'Mentions the top comment',
+    re: /\b(?:top|best|highest) (?:comment|answer|reply)\b|\bshould be (?:the )?top\b|\bunderrated comment\b/i,
+  },
+  {
+    reason: 'Has an edit note',
+    re: /(?:^|\n)\s*\**edit\s*\d*\**\s*:|\bthanks? (?:you )?for the (?:gold|silver|awards?)\b|\brip (?:my )?inbox\b|\bthis (?:blew|exploded) up\b/i,
+  },
+];
+
+/** Quoted or repeated text shorter than this is too common to count as quoting an option */
+const MIN_QUOTE_LENGTH = 15;
+
+/**
+ * Whether `comment` quotes `other` (a > quote of its text, or its whole text repeated) or is
+ * itself repeated inside it
+ */
+function quotes(comment: string, other: string): boolean {
+  const text = normalizeText(comment);
+  const otherText = normalizeText(other);
+  const quotedLines = comment
+    .split('\n')
+    .filter((line) => line.trimStart().startsWith('>'))
+    .map((line) => normalizeText(line.replace(/^\s*>+/, '')))
+    .filter((line) => line.length >= MIN_QUOTE_LENGTH);
+  return (
+    quotedLines.some((line) => otherText.includes(line)) ||
+    (otherText.length >= MIN_QUOTE_LENGTH && text.includes(otherText)) ||
+    (text.length >= MIN_QUOTE_LENGTH && otherText.includes(text))
+  );
+}
+
+/**
+ * Why a comment would give answers away as an option (mentions upvotes or the top comment,
+ * has an edit note, quotes one of `options`), or null if it's fine
+ */
+export function getSpoilerReason(
+  comment: RedditComment['data'],
+  options: RedditComment['data'][] = []
+): string | null {
+  const rule = SPOILER_RULES.find(({ re }) => re.test(comment.body));
+  if (rule) return rule.reason;
+  if (options.some((option) => quotes(comment.body, option.body))) {
+    return 'Quotes another option';
+  }
+  return null;
+}
+
+/**
+ * Drop comments that would give answers away, keeping the rest in order. The top comment is
+ * always kept (it is the answer; getCommentRejection rejects the post if it's a spoiler), and
+ * later comments are checked for quoting the ones kept before them.
+ */
+export function dropSpoilerComments(comments: RedditComment['data'][]): {
+  comments: RedditComment['data'][];
+  dropped: OptionRejection[];
+} {
+  const [top, ...rest] = comments;
+  if (!top) return { comments, dropped: [] };
+  const kept = [top];
+  const dropped: OptionRejection[] = [];
+  for (const comment of rest) {
+    const reason = getSpoilerReason(comment, kept);
+    if (reason) dropped.push({ commentId: comment.id, reason });
+    else kept.push(comment);
+  }
+  return { comments: kept, dropped };
+}
@@ -1,24 +1,139 @@
 import express from 'express';
-import { QuizResponse, ErrorResponse, ErrorType } from '../shared/types/api';
+import {
+  QuizResponse,
+  ErrorResponse,
+  ErrorType,
+  AnswerRequest,
+  AnswerResponse,
+  AnswerDriftResponse,
+  CompleteQuizRequest,
+  CompleteQuizResponse,
+  QuestionServedRequest,
+  QuestionServedResponse,
+  LeaderboardResponse,
+  MeResponse,
+  RecordedAttempt,
+  RotationEntry,
+  RotationResponse,
+  CalendarResponse,
+  SkipListResponse,
+  ReportDecision,
+  ReportQueueResponse,
+  QuizReplacementsResponse,
+  QualityDebugResponse,
+  ScorerWeightsResponse,
+  ListingSourceResponse,
+  QuestionStatsResponse,
+} from '../shared/types/api';
+import type { ScorerWeights } from '../shared/config/scoring';
+import type { ContentSafetySettings } from '../shared/config/contentSafety';
+import {
+  formatListingSource,
+  parseListingSource,
+  type SettleFilter,
+} from '../shared/config/listingSource';
+import type { UiResponse } from '@devvit/web/shared';
 import { createServer, getServerPort, context, redis, reddit } from '@devvit/web/server';
-import { createPost } from './core/post';
-import { fetchQuizData, getReplacementQuestion } from './core/quiz';
+import {
+  createPost,
+  getPostMeta,
+  getPostQuiz,
+  getServedQuiz,
+  applyPostQuizReplacements,
+  type PostMeta,
+} from './core/post';
+import { normalizeQuizConfig, type QuizPreset } from '../shared/config/quiz';
+import {
+  formatScore,
+  getQuestionKeyId,
+  isValidUpvoteBucket,
+  QUESTION_TYPES,
+  type QuestionType,
+} from '../shared/config/questionTypes';
+import { fetchQuizData, explainQuizSelection, subredditFromPermalink } from './core/quiz';
+import { getScorerWeights, setScorerWeights } from './core/scoring';
+import {
+  getListingSource,
+  setListingSource,
+  getCustomListingSources,
+  setCustomListingSources,
+  parseListingSourcesText,
+  formatListingSourcesText,
+  getSettleFilter,
+  setSettleFilter,
+} from './core/listingSource';
+import { getSubredditQuestionAccuracy } from './core/questionStats';
+import {
+  prepareQuizForClient,
+  submitAnswer,
+  markQuestionServed,
+  recordQuizStart,
+  getQuizStart,
+  scoreRecordedAnswers,
+  getAnswerKey,
+  hasRecordedPick,
+} from './core/answers';
+import { getAnswerDrift } from './core/liveScores';
+import {
+  formatOverridesText,
+  getContentSafetySettings,
+  parseListText,
+  parseOverridesText,
+  setContentSafetySettings,
+} from './core/contentSafety';
+import {
+  getLeaderboard,
+  recordLeaderboardEntry,
+  DEFAULT_LEADERBOARD_LIMIT,
+  MAX_LEADERBOARD_LIMIT,
+} from './core/leaderboard';
+import { getRecordedAttempt, recordAttempt } from './core/attempts';
+import { getPlayerProfile, recordGameResult } from './core/profile';
 import {
   getCachedQuiz,
   cacheQuiz,
   clearCachedQuiz,
   clearAllQuizCaches,
+  applyQuestionReplacements,
+  getQuizReplacements,
+} from './core/quizCache';
+import {
   isSubredditSkipped,
   addSubredditToSkipList,
+  removeSubredditFromSkipList,
+  getSkippedSubreddits,
+  getSkipCooldownHours,
+  setSkipCooldownHours,
+  getSkipReason,
+} from './core/skipList';
+import {
   getReplacedPostIds,
+  getBannedPostIds,
   incrementReportCount,
-} from './core/quizCache';
+  getReviewQueue,
+  resolveReport,
+  getReportThreshold,
+  setReportThreshold,
+} from './core/reports';
+import { getPreparedQuiz, prepareQuizForDate } from './core/preparedQuiz';
+import { getSubredditsInRotationOrder } from '../shared/config/subreddits';
 import {
-  getDailySubreddit,
-  getDailySubredditForDate,
-  getSubredditsInRotationOrder,
-  type ApprovedSubreddit,
-} from '../shared/config/subreddits';
+  getRotation,
+  getActiveRotation,
+  setRotation,
+  parseRotationText,
+  formatRotationText,
+} from './core/rotation';
+import {
+  getScheduledDay,
+  getSchedule,
+  getPinnedDays,
+  pinSubreddit,
+  unpinDate,
+  isValidDate,
+  todayDate,
+  addDays,
+} from './core/calendar';
 
 const app = express();
 
@@ -59,19 +174,501 @@ router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   }
 });
 
-router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
+/** Menu action handler that creates a post with the given quiz preset and navigates to it */
+function menuPostCreate(preset: QuizPreset) {
+  return async (_req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const post = await createPost(undefined, preset);
+
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+      });
+    } catch (error) {
+      console.error(`Error creating post: ${error}`);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to create post',
+      });
+    }
+  };
+}
+
+router.post('/internal/menu/post-create', menuPostCreate('standard'));
+router.post('/internal/menu/post-create-snack', menuPostCreate('snack'));
+router.post('/internal/menu/post-create-weekend', menuPostCreate('weekend'));
+router.post('/internal/menu/post-create-speed', menuPostCreate('speed'));
+
+// Mod menu: edit the daily subreddit rotation (one per line, order = rotation order, # = paused)
+router.post('/internal/menu/rotation', async (_req, res): Promise<void> => {
   try {
-    const post = await createPost();
+    const rotation = await getRotation();
+    res.json({
+      showForm: {
+        name: 'rotationForm',
+        form: {
+          title: 'Subreddit rotation',
+          description:
+            'One subreddit per line, in rotation order. Add or remove lines to change the list; start a line with # to pause it.',
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'paragraph',
+              name: 'subreddits',
+              label: 'Subreddits',
+              required: true,
+              lineHeight: 12,
+            },
+          ],
+        },
+        data: { subreddits: formatRotationText(rotation) },
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error loading rotation form:', error);
+    res.json({ showToast: 'Failed to load the subreddit rotation' } satisfies UiResponse);
+  }
+});
 
+router.post('/internal/form/rotation', async (req, res): Promise<void> => {
+  try {
+    const { subreddits } = req.body as { subreddits?: string };
+    const entries = parseRotationText(subreddits ?? '');
+    if (entries.length === 0) {
+      res.json({ showToast: 'The rotation needs at least one subreddit' } satisfies UiResponse);
+      return;
+    }
+    const saved = await setRotation(entries);
+    const active = saved.filter((e) => !e.paused).length;
     res.json({
-      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
-    });
+      showToast: {
+        text: `Rotation saved: ${active} active, ${saved.length - active} paused`,
+        appearance: 'success',
+      },
+    } satisfies UiResponse);
   } catch (error) {
-    console.error(`Error creating post: ${error}`);
-    res.status(400).json({
-      status: 'error',
-      message: 'Failed to create post',
+    console.error('Error saving rotation:', error);
+    res.json({
+      showToast: error instanceof Error ? error.message : 'Failed to save the rotation',
+    } satisfies UiResponse);
+  }
+});
+
+// Mod menu: pin a subreddit to a date (themed days, holidays) or remove a pin
+router.post('/internal/menu/calendar', async (_req, res): Promise<void> => {
+  try {
+    const pins = await getPinnedDays();
+    const upcomingPins = pins.filter((p) => p.date >= todayDate());
+    res.json({
+      showForm: {
+        name: 'calendarForm',
+        form: {
+          title: 'Pin a subreddit to a date',
+          description:
+            upcomingPins.length > 0
+              ? `Upcoming pins: ${upcomingPins.map((p) => `${p.date} r/${p.subreddit}`).join(', ')}`
+              : 'No upcoming pins. Unpinned dates use the rotation.',
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'string',
+              name: 'date',
+              label: 'Date (YYYY-MM-DD)',
+              required: true,
+            },
+            {
+              type: 'string',
+              name: 'subreddit',
+              label: 'Subreddit',
+              helpText: 'Leave empty with "Remove pin" checked to unpin the date',
+            },
+            { type: 'string', name: 'note', label: 'Note (optional, e.g. holiday theme)' },
+            { type: 'boolean', name: 'remove', label: 'Remove pin for this date' },
+          ],
+        },
+        data: { date: addDays(todayDate(), 1) },
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error loading calendar form:', error);
+    res.json({ showToast: 'Failed to load the calendar' } satisfies UiResponse);
+  }
+});
+
+router.post('/internal/form/calendar', async (req, res): Promise<void> => {
+  try {
+    const { date, subreddit, note, remove } = req.body as {
+      date?: string;
+      subreddit?: string;
+      note?: string;
+      remove?: boolean;
+    };
+    const trimmedDate = date?.trim() ?? '';
+    if (!isValidDate(trimmedDate)) {
+      res.json({ showToast: 'Enter the date as YYYY-MM-DD' } satisfies UiResponse);
+      return;
+    }
+    if (remove) {
+      const removed = await unpinDate(trimmedDate);
+      const { subreddit: computed } = await getScheduledDay(trimmedDate);
+      res.json({
+        showToast: removed
+          ? `Unpinned ${trimmedDate}; the rotation picks r/${computed}`
+          : `${trimmedDate} wasn't pinned`,
+      } satisfies UiResponse);
+      return;
+    }
+    if (!subreddit?.trim()) {
+      res.json({ showToast: 'Enter a subreddit to pin' } satisfies UiResponse);
+      return;
+    }
+    await pinSubreddit(trimmedDate, subreddit, note);
+    const day = await getScheduledDay(trimmedDate);
+    res.json({
+      showToast: { text: `Pinned r/${day.subreddit} to ${day.date}`, appearance: 'success' },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error saving calendar pin:', error);
+    res.json({
+      showToast: error instanceof Error ? error.message : 'Failed to save the pin',
+    } satisfies UiResponse);
+  }
+});
+
+// Mod menu: set which listing each subreddit's quiz posts come from (one "subreddit source" per line)
+// and how old and busy a post must be to qualify
+router.post('/internal/menu/listing-sources', async (_req, res): Promise<void> => {
+  try {
+    const [sources, settleFilter] = await Promise.all([
+      getCustomListingSources(),
+      getSettleFilter(),
+    ]);
+    res.json({
+      showForm: {
+        name: 'listingSourcesForm',
+        form: {
+          title: 'Post sources',
+          description:
+            'One subreddit per line followed by where its quiz posts come from: hot, top-day, top-week, top-month, rising, or new-6h (new posts at least 6 hours old). Subreddits not listed use hot. Top-week suits slow subreddits.',
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'paragraph',
+              name: 'sources',
+              label: 'Sources',
+              required: false,
+              lineHeight: 8,
+            },
+            {
+              type: 'number',
+              name: 'minPostAgeHours',
+              label: 'Minimum post age (hours)',
+              helpText: 'Younger posts are skipped so their top comment has time to settle',
+              required: true,
+            },
+            {
+              type: 'number',
+              name: 'minComments',
+              label: 'Minimum comments',
+              helpText: 'Posts with fewer comments are skipped',
+              required: true,
+            },
+          ],
+        },
+        data: { sources: formatListingSourcesText(sources), ...settleFilter },
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error loading listing sources form:', error);
+    res.json({ showToast: 'Failed to load the post sources' } satisfies UiResponse);
+  }
+});
+
+router.post('/internal/form/listing-sources', async (req, res): Promise<void> => {
+  try {
+    const { sources, minPostAgeHours, minComments } = req.body as {
+      sources?: string;
+      minPostAgeHours?: number;
+      minComments?: number;
+    };
+    const parsed = parseListingSourcesText(sources ?? '');
+    await setCustomListingSources(parsed);
+    const filter = await setSettleFilter({
+      ...(typeof minPostAgeHours === 'number' && { minPostAgeHours }),
+      ...(typeof minComments === 'number' && { minComments }),
     });
+    res.json({
+      showToast: {
+        text: `Post sources saved: ${Object.keys(parsed).length} custom, posts ${filter.minPostAgeHours}h+ old with ${filter.minComments}+ comments`,
+        appearance: 'success',
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error saving listing sources:', error);
+    res.json({
+      showToast: error instanceof Error ? error.message : 'Failed to save the post sources',
+    } satisfies UiResponse);
+  }
+});
+
+// Mod menu: see skipped subreddits, return them to the rotation, and set the skip cooldown
+router.post('/internal/menu/skip-list', async (_req, res): Promise<void> => {
+  try {
+    const [entries, cooldownHours] = await Promise.all([
+      getSkippedSubreddits(),
+      getSkipCooldownHours(),
+    ]);
+    res.json({
+      showForm: {
+        name: 'skipListForm',
+        form: {
+          title: 'Skipped subreddits',
+          description:
+            entries.length > 0
+              ? entries
+                  .map(
+                    (e) =>
+                      `r/${e.subreddit}: ${e.reason} (${e.skippedAt.split('T')[0]}, ${
+                        e.expiresAt ? `until ${e.expiresAt.split('T')[0]}` : 'no expiry'
+                      })`
+                  )
+                  .join('; ')
+              : 'No subreddits are being skipped.',
+          acceptLabel: 'Save',
+          fields: [
+            ...(entries.length > 0
+              ? [
+                  {
+                    type: 'select' as const,
+                    name: 'remove',
+                    label: 'Return to rotation',
+                    multiSelect: true,
+                    options: entries.map((e) => ({
+                      label: `r/${e.subreddit}`,
+                      value: e.subreddit,
+                    })),
+                  },
+                ]
+              : []),
+            {
+              type: 'number',
+              name: 'cooldownHours',
+              label: 'Skip cooldown (hours)',
+              helpText: 'How long new skips last; 0 keeps them until removed here',
+              required: true,
+            },
+          ],
+        },
+        data: { cooldownHours },
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error loading skip list form:', error);
+    res.json({ showToast: 'Failed to load the skip list' } satisfies UiResponse);
+  }
+});
+
+router.post('/internal/form/skip-list', async (req, res): Promise<void> => {
+  try {
+    const { remove, cooldownHours } = req.body as {
+      remove?: string[];
+      cooldownHours?: number;
+    };
+    let removed = 0;
+    for (const subreddit of remove ?? []) {
+      if (await removeSubredditFromSkipList(subreddit)) removed++;
+    }
+    const parts: string[] = [];
+    if (removed > 0) parts.push(`${removed} back in rotation`);
+    if (typeof cooldownHours === 'number' && Number.isFinite(cooldownHours)) {
+      const saved = await setSkipCooldownHours(cooldownHours);
+      parts.push(saved > 0 ? `cooldown ${saved}h` : 'skips never expire');
+    }
+    res.json({
+      showToast: { text: `Skip list saved: ${parts.join(', ')}`, appearance: 'success' },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error saving skip list:', error);
+    res.json({ showToast: 'Failed to save the skip list' } satisfies UiResponse);
+  }
+});
+
+const REPORT_DECISION_LABELS: Record<ReportDecision, string> = {
+  confirm: 'replaced',
+  dismiss: 'dismissed',
+  ban: 'banned',
+};
+const REPORT_DECISIONS = Object.keys(REPORT_DECISION_LABELS) as ReportDecision[];
+
+function isReportDecision(value: unknown): value is ReportDecision {
+  return REPORT_DECISIONS.includes(value as ReportDecision);
+}
+
+// Mod menu: review reported quiz questions (confirm = replace, dismiss = keep and whitelist, ban = never use)
+router.post('/internal/menu/reports', async (_req, res): Promise<void> => {
+  try {
+    const [pending, threshold] = await Promise.all([getReviewQueue(), getReportThreshold()]);
+    res.json({
+      showForm: {
+        name: 'reportsForm',
+        form: {
+          title: 'Reported questions',
+          description:
+            pending.length > 0
+              ? `${pending.length} question${pending.length === 1 ? '' : 's'} waiting for review. Pick one and a decision.`
+              : 'No reported questions are waiting for review.',
+          acceptLabel: 'Save',
+          fields: [
+            ...(pending.length > 0
+              ? [
+                  {
+                    type: 'select' as const,
+                    name: 'postId',
+                    label: 'Question',
+                    options: pending.map((r) => ({
+                      label: `${r.subreddit ? `r/${r.subreddit}: ` : ''}${r.title.slice(0, 80)} (${r.reportCount} reports)`,
+                      value: r.postId,
+                    })),
+                  },
+                  {
+                    type: 'select' as const,
+                    name: 'decision',
+                    label: 'Decision',
+                    options: [
+                      { label: 'Confirm: replace the question', value: 'confirm' },
+                      { label: 'Dismiss: keep it and ignore further reports', value: 'dismiss' },
+                      { label: 'Ban: never use this post again', value: 'ban' },
+                    ],
+                  },
+                ]
+              : []),
+            {
+              type: 'number',
+              name: 'threshold',
+              label: 'Reports before review',
+              required: true,
+            },
+          ],
+        },
+        data: { threshold },
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error loading reports form:', error);
+    res.json({ showToast: 'Failed to load reported questions' } satisfies UiResponse);
+  }
+});
+
+router.post('/internal/form/reports', async (req, res): Promise<void> => {
+  try {
+    const { postId, decision, threshold } = req.body as {
+      postId?: string[];
+      decision?: string[];
+      threshold?: number;
+    };
+    const parts: string[] = [];
+    const selectedPost = postId?.[0];
+    const selectedDecision = decision?.[0];
+    if (selectedPost && isReportDecision(selectedDecision)) {
+      const resolved = await resolveReport(selectedPost, selectedDecision);
+      parts.push(
+        resolved
+          ? `question ${REPORT_DECISION_LABELS[selectedDecision]}`
+          : 'question was already resolved'
+      );
+    } else if (selectedPost || selectedDecision) {
+      res.json({ showToast: 'Pick both a question and a decision' } satisfies UiResponse);
+      return;
+    }
+    if (typeof threshold === 'number' && Number.isFinite(threshold)) {
+      parts.push(`threshold ${await setReportThreshold(threshold)}`);
+    }
+    res.json({
+      showToast: { text: `Reports saved: ${parts.join(', ')}`, appearance: 'success' },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error saving report decision:', error);
+    res.json({ showToast: 'Failed to save the report decision' } satisfies UiResponse);
+  }
+});
+
+// Mod menu: edit the content filters (blocked words, regex patterns, per-subreddit overrides)
+router.post('/internal/menu/content-safety', async (_req, res): Promise<void> => {
+  try {
+    const settings = await getContentSafetySettings();
+    res.json({
+      showForm: {
+        name: 'contentSafetyForm',
+        form: {
+          title: 'Content filters',
+          description:
+            'Posts whose title, text or answer comments match any of these are never used as questions. Emails and phone numbers are always filtered, but no words are blocked until you add them here.',
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'paragraph',
+              name: 'blockedWords',
+              label: 'Blocked words',
+              helpText:
+                'Starts empty: fill in the slurs and other words your community never wants in a quiz. One word or phrase per line, matched as whole words in any case',
+              required: false,
+              lineHeight: 6,
+            },
+            {
+              type: 'paragraph',
+              name: 'patterns',
+              label: 'Patterns',
+              helpText: 'One regular expression per line, as /pattern/flags or a bare pattern',
+              required: false,
+              lineHeight: 4,
+            },
+            {
+              type: 'paragraph',
+              name: 'overrides',
+              label: 'Per-subreddit overrides',
+              helpText:
+                'One subreddit per line with +word to also block there or -word to allow a blocked word or pattern there, e.g. "AskDocs -anatomy"',
+              required: false,
+              lineHeight: 4,
+            },
+          ],
+        },
+        data: {
+          blockedWords: settings.blockedWords.join('\n'),
+          patterns: settings.patterns.join('\n'),
+          overrides: formatOverridesText(settings.overrides),
+        },
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error loading content safety form:', error);
+    res.json({ showToast: 'Failed to load the content filters' } satisfies UiResponse);
+  }
+});
+
+router.post('/internal/form/content-safety', async (req, res): Promise<void> => {
+  try {
+    const { blockedWords, patterns, overrides } = req.body as {
+      blockedWords?: string;
+      patterns?: string;
+      overrides?: string;
+    };
+    const settings: ContentSafetySettings = {
+      blockedWords: parseListText(blockedWords ?? ''),
+      patterns: parseListText(patterns ?? ''),
+      overrides: parseOverridesText(overrides ?? ''),
+    };
+    await setContentSafetySettings(settings);
+    res.json({
+      showToast: {
+        text: `Content filters saved: ${settings.blockedWords.length} words, ${settings.patterns.length} patterns`,
+        appearance: 'success',
+      },
+    } satisfies UiResponse);
+  } catch (error) {
+    console.error('Error saving content safety settings:', error);
+    res.json({
+      showToast: error instanceof Error ? error.message : 'Failed to save the content filters',
+    } satisfies UiResponse);
   }
 });
 
@@ -79,8 +676,7 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
 // This endpoint is called by Devvit's scheduler to create a new post each day
 router.post('/internal/scheduled/daily-post', async (_req, res): Promise<void> => {
   try {
-    const dailySubreddit = getDailySubreddit(process.env.TEST_SUBREDDIT);
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+    const today = todayDate(); // YYYY-MM-DD
 
     // Check if we already created a post today (using Redis cache)
     const cacheKey = `daily_post:${today}`;
@@ -96,7 +692,14 @@ router.post('/internal/scheduled/daily-post', async (_req, res): Promise<void> =
       return;
     }
 
-    // Create the post (pass subreddit to avoid duplicate getDailySubreddit() call)
+    // Publish the quiz prepare-quiz built yesterday; only build it now if that task didn't run
+    let prepared = await getPreparedQuiz(today);
+    if (!prepared) {
+      console.warn(`No prepared quiz for ${today}; preparing it now`);
+      prepared = await prepareQuizForDate(today);
+    }
+    const dailySubreddit = prepared.subreddit;
+
     const post = await createPost(dailySubreddit);
 
     // Cache the post ID for today (expires at midnight)
@@ -121,6 +724,26 @@ router.post('/internal/scheduled/daily-post', async (_req, res): Promise<void> =
   }
 });
 
+// Scheduled quiz preparation
+// Builds and caches tomorrow's quiz ahead of time so daily-post only has to publish it
+router.post('/internal/scheduled/prepare-quiz', async (_req, res): Promise<void> => {
+  try {
+    const tomorrow = addDays(todayDate(), 1);
+    const prepared = await prepareQuizForDate(tomorrow);
+    res.json({
+      status: 'success',
+      message: `Prepared quiz for ${tomorrow} with subreddit r/${prepared.subreddit}`,
+      prepared,
+    });
+  } catch (error) {
+    console.error(`Error preparing quiz: ${error}`);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to prepare quiz',
+    });
+  }
+});
+
 // Clear cache endpoint (admin only; requires ?key=ADMIN_SECRET)
 // POST with body { subreddit?: string } or GET with ?subreddit=name
 router.post('/api/clear-cache', async (req, res): Promise<void> => {
@@ -178,26 +801,21 @@ router.get('/api/clear-cache', async (req, res): Promise<void> => {
 });
 
 // GET /api/next-subreddit?days=N&key=ADMIN_SECRET - Returns tomorrow's subreddit and optional upcoming days (admin only)
+// Each day is marked pinned (mod calendar) or computed (rotation fallback)
 router.get('/api/next-subreddit', async (req, res): Promise<void> => {
   if (!requireAdminSecret(req, res)) return;
   try {
     const daysParam = req.query.days as string | undefined;
     const days = daysParam ? Math.min(Math.max(1, parseInt(daysParam, 10)), 31) : 7;
-    const today = new Date();
-    const upcoming: { date: string; subreddit: string }[] = [];
-    for (let i = 1; i <= days; i++) {
-      const d = new Date(today);
-      d.setDate(d.getDate() + i);
-      upcoming.push({
-        date: d.toISOString().split('T')[0] ?? '',
-        subreddit: getDailySubredditForDate(d),
-      });
-    }
+    const [today, ...upcoming] = await getSchedule(todayDate(), days + 1);
+    const next = upcoming[0];
     res.json({
-      today: getDailySubreddit(process.env.TEST_SUBREDDIT),
-      todayDate: today.toISOString().split('T')[0],
-      nextSubreddit: getDailySubredditForDate(new Date(today.getTime() + 86400000)),
-      nextDate: new Date(today.getTime() + 86400000).toISOString().split('T')[0],
+      today: today?.subreddit,
+      todayDate: today?.date,
+      todayPinned: today?.pinned ?? false,
+      nextSubreddit: next?.subreddit,
+      nextDate: next?.date,
+      nextPinned: next?.pinned ?? false,
       upcoming,
     });
   } catch (error) {
@@ -209,6 +827,387 @@ router.get('/api/next-subreddit', async (req, res): Promise<void> => {
   }
 });
 
+// GET /api/calendar?days=N&key=ADMIN_SECRET - Schedule from today plus every pinned date (admin only)
+router.get('/api/calendar', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const daysParam = req.query.days as string | undefined;
+    const days = daysParam ? Math.min(Math.max(1, parseInt(daysParam, 10)), 62) : 14;
+    const response: CalendarResponse = {
+      days: await getSchedule(todayDate(), days),
+      pins: await getPinnedDays(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting calendar:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get calendar' });
+  }
+});
+
+// POST /api/calendar?key=ADMIN_SECRET - Pin a subreddit to a date with body { date, subreddit, note? } (admin only)
+router.post('/api/calendar', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { date, subreddit, note } = req.body as {
+      date?: string;
+      subreddit?: string;
+      note?: string;
+    };
+    if (!date || !subreddit) {
+      res.status(400).json({ status: 'error', message: 'Date and subreddit are required' });
+      return;
+    }
+    await pinSubreddit(date.trim(), subreddit, note);
+    res.json(await getScheduledDay(date.trim()));
+  } catch (error) {
+    console.error('Error pinning calendar date:', error);
+    res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to pin date',
+    });
+  }
+});
+
+// DELETE /api/calendar?date=YYYY-MM-DD&key=ADMIN_SECRET - Remove a date's pin so the rotation picks again (admin only)
+router.delete('/api/calendar', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const date = req.query.date as string | undefined;
+    if (!date || !isValidDate(date)) {
+      res.status(400).json({ status: 'error', message: 'A valid date (YYYY-MM-DD) is required' });
+      return;
+    }
+    const removed = await unpinDate(date);
+    res.json({ removed, day: await getScheduledDay(date) });
+  } catch (error) {
+    console.error('Error removing calendar pin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to remove pin' });
+  }
+});
+
+// GET /api/rotation?key=ADMIN_SECRET - The live subreddit rotation, including paused entries (admin only)
+router.get('/api/rotation', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const response: RotationResponse = {
+      rotation: await getRotation(),
+      active: await getActiveRotation(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting rotation:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get rotation' });
+  }
+});
+
+// POST /api/rotation?key=ADMIN_SECRET - Replace the rotation with body { rotation: RotationEntry[] } (admin only)
+router.post('/api/rotation', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { rotation } = req.body as { rotation?: RotationEntry[] };
+    if (!Array.isArray(rotation) || rotation.length === 0) {
+      res.status(400).json({ status: 'error', message: 'Rotation must be a non-empty array' });
+      return;
+    }
+    const saved = await setRotation(
+      rotation.map((e) => ({ name: String(e?.name ?? ''), paused: e?.paused === true }))
+    );
+    const response: RotationResponse = { rotation: saved, active: await getActiveRotation() };
+    res.json(response);
+  } catch (error) {
+    console.error('Error setting rotation:', error);
+    res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to set rotation',
+    });
+  }
+});
+
+// GET /api/skipped-subreddits?key=ADMIN_SECRET - Skipped subreddits with reason, time and error (admin only)
+router.get('/api/skipped-subreddits', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const response: SkipListResponse = {
+      entries: await getSkippedSubreddits(),
+      cooldownHours: await getSkipCooldownHours(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting skip list:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get skip list' });
+  }
+});
+
+// DELETE /api/skipped-subreddits?subreddit=NAME&key=ADMIN_SECRET - Return a subreddit to the rotation (admin only)
+router.delete('/api/skipped-subreddits', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit = req.query.subreddit as string | undefined;
+    if (!subreddit?.trim()) {
+      res.status(400).json({ status: 'error', message: 'Subreddit is required' });
+      return;
+    }
+    const removed = await removeSubredditFromSkipList(subreddit);
+    res.json({ removed, subreddit: subreddit.trim() });
+  } catch (error) {
+    console.error('Error removing skipped subreddit:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to remove skipped subreddit' });
+  }
+});
+
+// POST /api/skipped-subreddits/cooldown?key=ADMIN_SECRET - Set the skip cooldown with body { hours } (admin only)
+router.post('/api/skipped-subreddits/cooldown', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { hours } = req.body as { hours?: number };
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours < 0) {
+      res.status(400).json({ status: 'error', message: 'Hours must be a number >= 0' });
+      return;
+    }
+    res.json({ cooldownHours: await setSkipCooldownHours(hours) });
+  } catch (error) {
+    console.error('Error setting skip cooldown:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to set skip cooldown' });
+  }
+});
+
+// GET /api/quality-debug?subreddit=NAME&key=ADMIN_SECRET - Every candidate post's per-scorer breakdown and rejection reason (admin only)
+router.get('/api/quality-debug', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit =
+      (req.query.subreddit as string | undefined)?.trim() || (await getScheduledDay()).subreddit;
+    const response: QualityDebugResponse = await explainQuizSelection(subreddit);
+    res.json(response);
+  } catch (error) {
+    console.error('Error explaining quiz selection:', error);
+    res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to score candidate posts',
+    });
+  }
+});
+
+// GET /api/scorer-weights?subreddit=NAME&key=ADMIN_SECRET - Quality scorer weights for a subreddit (admin only)
+router.get('/api/scorer-weights', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit = (req.query.subreddit as string | undefined)?.trim();
+    if (!subreddit) {
+      res.status(400).json({ status: 'error', message: 'Subreddit is required' });
+      return;
+    }
+    const response: ScorerWeightsResponse = { subreddit, ...(await getScorerWeights(subreddit)) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting scorer weights:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get scorer weights' });
+  }
+});
+
+// POST /api/scorer-weights?subreddit=NAME&key=ADMIN_SECRET - Set weights with body { weights } (partial; null resets to defaults) (admin only)
+router.post('/api/scorer-weights', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit = (req.query.subreddit as string | undefined)?.trim();
+    const { weights } = req.body as { weights?: Partial<ScorerWeights> | null };
+    if (!subreddit || weights === undefined) {
+      res.status(400).json({ status: 'error', message: 'Subreddit and weights are required' });
+      return;
+    }
+    const saved = await setScorerWeights(subreddit, weights);
+    const response: ScorerWeightsResponse = { subreddit, weights: saved, custom: weights != null };
+    res.json(response);
+  } catch (error) {
+    console.error('Error setting scorer weights:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to set scorer weights' });
+  }
+});
+
+// GET /api/listing-source?subreddit=NAME&key=ADMIN_SECRET - Where a subreddit's quiz posts come from (admin only)
+router.get('/api/listing-source', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit = (req.query.subreddit as string | undefined)?.trim();
+    if (!subreddit) {
+      res.status(400).json({ status: 'error', message: 'Subreddit is required' });
+      return;
+    }
+    const { source, custom } = await getListingSource(subreddit);
+    const response: ListingSourceResponse = {
+      subreddit,
+      source: formatListingSource(source),
+      custom,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting listing source:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get listing source' });
+  }
+});
+
+// POST /api/listing-source?subreddit=NAME&key=ADMIN_SECRET - Set the source with body { source } (hot, top-day, top-week, top-month, rising, new-6h; null resets to hot) (admin only)
+router.post('/api/listing-source', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit = (req.query.subreddit as string | undefined)?.trim();
+    const { source } = req.body as { source?: string | null };
+    if (!subreddit || source === undefined) {
+      res.status(400).json({ status: 'error', message: 'Subreddit and source are required' });
+      return;
+    }
+    const parsed = source == null ? null : parseListingSource(String(source));
+    if (source != null && !parsed) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Source must be hot, top-day, top-week, top-month, rising or new-{hours}h',
+      });
+      return;
+    }
+    const saved = await setListingSource(subreddit, parsed);
+    const response: ListingSourceResponse = {
+      subreddit,
+      source: formatListingSource(saved),
+      custom: parsed != null,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error setting listing source:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to set listing source' });
+  }
+});
+
+// GET /api/settle-filter?key=ADMIN_SECRET - Minimum post age and comment count for quiz posts (admin only)
+router.get('/api/settle-filter', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const response: SettleFilter = await getSettleFilter();
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting settle filter:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get settle filter' });
+  }
+});
+
+// POST /api/settle-filter?key=ADMIN_SECRET - Set it with body { minPostAgeHours?, minComments? } (admin only)
+router.post('/api/settle-filter', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { minPostAgeHours, minComments } = req.body as Partial<SettleFilter>;
+    const invalid = [minPostAgeHours, minComments].some(
+      (value) => value !== undefined && (typeof value !== 'number' || !(value >= 0))
+    );
+    if (invalid || (minPostAgeHours === undefined && minComments === undefined)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Give minPostAgeHours and/or minComments as numbers >= 0',
+      });
+      return;
+    }
+    const response: SettleFilter = await setSettleFilter({
+      ...(minPostAgeHours !== undefined && { minPostAgeHours }),
+      ...(minComments !== undefined && { minComments }),
+    });
+    res.json(response);
+  } catch (error) {
+    console.error('Error setting settle filter:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to set settle filter' });
+  }
+});
+
+// GET /api/content-safety?key=ADMIN_SECRET - The content filters: blocked words, patterns and per-subreddit overrides (admin only)
+router.get('/api/content-safety', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const response: ContentSafetySettings = await getContentSafetySettings();
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting content safety settings:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get content filters' });
+  }
+});
+
+// POST /api/content-safety?key=ADMIN_SECRET - Replace the filters with body { blockedWords?, patterns?, overrides? } (missing fields are kept) (admin only)
+router.post('/api/content-safety', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { blockedWords, patterns, overrides } = req.body as Partial<ContentSafetySettings>;
+    const isStringList = (value: unknown) =>
+      Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+    const validOverrides =
+      overrides === undefined ||
+      (typeof overrides === 'object' &&
+        overrides !== null &&
+        Object.values(overrides).every(
+          (o) => o != null && isStringList(o.blocked) && isStringList(o.allowed)
+        ));
+    if (
+      (blockedWords !== undefined && !isStringList(blockedWords)) ||
+      (patterns !== undefined && !isStringList(patterns)) ||
+      !validOverrides
+    ) {
+      res.status(400).json({
+        status: 'error',
+        message:
+          'blockedWords and patterns must be lists of strings; overrides maps subreddits to { blocked, allowed } lists',
+      });
+      return;
+    }
+    const current = await getContentSafetySettings();
+    const settings: ContentSafetySettings = {
+      blockedWords: blockedWords ?? current.blockedWords,
+      patterns: patterns ?? current.patterns,
+      overrides: overrides
+        ? Object.fromEntries(Object.entries(overrides).map(([sub, o]) => [sub.toLowerCase(), o]))
+        : current.overrides,
+    };
+    try {
+      await setContentSafetySettings(settings);
+    } catch (error) {
+      res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid content filters',
+      });
+      return;
+    }
+    res.json(settings);
+  } catch (error) {
+    console.error('Error setting content safety settings:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to set content filters' });
+  }
+});
+
+// GET /api/question-stats?subreddit=NAME&days=30&limit=10&minAnswers=5&key=ADMIN_SECRET - Hardest and easiest questions by player accuracy (admin only)
+router.get('/api/question-stats', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const subreddit = (req.query.subreddit as string | undefined)?.trim();
+    if (!subreddit) {
+      res.status(400).json({ status: 'error', message: 'Subreddit is required' });
+      return;
+    }
+    const parseParam = (name: string, fallback: number, max: number): number => {
+      const value = parseInt((req.query[name] as string | undefined) ?? '', 10);
+      return Number.isFinite(value) ? Math.min(Math.max(1, value), max) : fallback;
+    };
+    const days = parseParam('days', 30, 365);
+    const limit = parseParam('limit', 10, 100);
+    const minAnswers = parseParam('minAnswers', 5, 10000);
+    const ranked = await getSubredditQuestionAccuracy(subreddit, days, minAnswers);
+    const response: QuestionStatsResponse = {
+      subreddit,
+      days,
+      minAnswers,
+      hardest: ranked.slice(0, limit),
+      easiest: [...ranked].reverse().slice(0, limit),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting question stats:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get question stats' });
+  }
+});
+
 // GET /api/daily-subreddit?postId=POST_ID - Returns the subreddit for today or for a specific post
 router.get('/api/daily-subreddit', async (req, res): Promise<void> => {
   try {
@@ -221,11 +1220,12 @@ router.get('/api/daily-subreddit', async (req, res): Promise<void> => {
 
       if (postMetaData) {
         try {
-          const postMeta = JSON.parse(postMetaData) as { date: string; subreddit: string };
+          const postMeta = JSON.parse(postMetaData) as PostMeta;
           res.json({
             subreddit: postMeta.subreddit,
             date: postMeta.date,
             isHistorical: true, // Indicates this is from an old post
+            config: normalizeQuizConfig(postMeta.config),
           });
           return;
         } catch (error) {
@@ -235,12 +1235,14 @@ router.get('/api/daily-subreddit', async (req, res): Promise<void> => {
       }
     }
 
-    // Default: return today's subreddit
-    const dailySubreddit = getDailySubreddit(process.env.TEST_SUBREDDIT);
+    // Default: return today's subreddit (the prepared quiz's, else pinned or from the rotation)
+    const dailySubreddit =
+      (await getPreparedQuiz(todayDate()))?.subreddit ?? (await getScheduledDay()).subreddit;
     res.json({
       subreddit: dailySubreddit,
       date: new Date().toISOString().split('T')[0], // YYYY-MM-DD
       isHistorical: false,
+      config: normalizeQuizConfig(),
     });
   } catch (error) {
     console.error('Error getting daily subreddit:', error);
@@ -259,6 +1261,9 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
     const postId = req.query.postId as string | undefined;
     let subreddit = req.query.subreddit as string | undefined;
     let date = req.query.date as string | undefined;
+    let config = normalizeQuizConfig();
+    // Answer keys are only stored for real quiz posts, so made-up post IDs can't be answered
+    let quizPostId: string | undefined;
 
     // If postId is provided, prioritize the post's original date/subreddit
     // This ensures historical posts maintain their original quiz even if subreddit is also passed
@@ -268,10 +1273,12 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
 
       if (postMetaData) {
         try {
-          const postMeta = JSON.parse(postMetaData) as { date: string; subreddit: string };
+          const postMeta = JSON.parse(postMetaData) as PostMeta;
           // Override with post's original metadata to ensure historical accuracy
           subreddit = postMeta.subreddit;
           date = postMeta.date;
+          config = normalizeQuizConfig(postMeta.config);
+          quizPostId = postId;
           console.log(
             `Using historical quiz for post ${postId}: date=${date}, subreddit=${subreddit}`
           );
@@ -286,10 +1293,42 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
       }
     }
 
+    // Start the clock for time-to-complete (first load only); replays after a recorded attempt are practice
+    const quizUserId = (context as { userId?: string }).userId;
+    let recordedAttempt: RecordedAttempt | null = null;
+    if (postId && quizUserId) {
+      recordedAttempt = await getRecordedAttempt(postId, quizUserId);
+      if (!recordedAttempt) await recordQuizStart(postId, quizUserId);
+    }
+
+    // Posts serve the quiz frozen when they were created (older posts fall back to the cache)
+    const snapshot = postId ? await getPostQuiz(postId) : null;
+    if (postId && snapshot) {
+      try {
+        const quizOut = await applyPostQuizReplacements(postId, snapshot);
+        res.json({
+          quiz: await prepareQuizForClient(quizOut, postId),
+          recordedAttempt,
+          config: normalizeQuizConfig(snapshot.config),
+        });
+      } catch (error) {
+        console.error(`Error serving quiz snapshot for post ${postId}:`, error);
+        res.status(500).json({
+          status: 'error',
+          message: 'Failed to load quiz. Please try again.',
+          type: 'UNKNOWN_ERROR',
+          retryable: true,
+        } as ErrorResponse);
+      }
+      return;
+    }
+
     // If no subreddit provided, use the daily subreddit (we may try next on failure)
     let usingDailySubreddit = false;
+    const rotation = await getActiveRotation();
     if (!subreddit) {
-      subreddit = getDailySubreddit(process.env.TEST_SUBREDDIT);
+      subreddit =
+        (await getPreparedQuiz(todayDate()))?.subreddit ?? (await getScheduledDay()).subreddit;
       usingDailySubreddit = true;
     }
 
@@ -304,15 +1343,16 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
       return;
     }
 
-    // When using daily rotation, try subreddits in order (skip banned/unavailable)
+    // When using daily rotation, try today's scheduled subreddit, then the rotation in order (skip banned/unavailable)
     const candidates = usingDailySubreddit
       ? (
           await Promise.all(
-            getSubredditsInRotationOrder().map(async (c) =>
-              (await isSubredditSkipped(c)) ? null : c
-            )
+            [
+              subreddit,
+              ...getSubredditsInRotationOrder(rotation).filter((c) => c !== subreddit),
+            ].map(async (c) => ((await isSubredditSkipped(c)) ? null : c))
           )
-        ).filter((c): c is ApprovedSubreddit => c != null)
+        ).filter((c): c is string => c != null)
       : [subreddit];
 
     if (candidates.length === 0) {
@@ -329,32 +1369,28 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
     try {
       for (const candidate of candidates) {
         // Check Redis cache first
-        const cachedQuiz = await getCachedQuiz(candidate, date);
+        const cachedQuiz = await getCachedQuiz(candidate, date, config);
         if (cachedQuiz && cachedQuiz.length > 0) {
-          const replacedIds = await getReplacedPostIds();
-          const quizOut = [...cachedQuiz];
-          for (let i = 0; i < quizOut.length; i++) {
-            if (replacedIds.includes(quizOut[i]!.postId)) {
-              const replacement = await getReplacementQuestion(candidate, [
-                ...quizOut.map((q) => q.postId),
-                ...replacedIds,
-              ]);
-              if (replacement) quizOut[i] = replacement;
-            }
-          }
+          const quizOut = await applyQuestionReplacements(candidate, cachedQuiz, date, config);
           res.json({
-            quiz: quizOut,
+            quiz: await prepareQuizForClient(quizOut, quizPostId),
             ...(usingDailySubreddit && { subreddit: candidate }),
+            recordedAttempt,
+            config,
           });
           return;
         }
 
         // Cache miss - fetch from Reddit API
         try {
-          const quizData = await fetchQuizData(candidate);
+          const quizData = await fetchQuizData(candidate, config, await getBannedPostIds());
           if (quizData.length === 0) {
             if (usingDailySubreddit) {
-              await addSubredditToSkipList(candidate);
+              await addSubredditToSkipList(
+                candidate,
+                'insufficient_questions',
+                'No qualifying questions found'
+              );
               continue;
             }
             res.status(404).json({
@@ -366,39 +1402,21 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
             } as ErrorResponse);
             return;
           }
-          await cacheQuiz(candidate, quizData, date);
-          const replacedIds = await getReplacedPostIds();
-          const quizOut = [...quizData];
-          for (let i = 0; i < quizOut.length; i++) {
-            if (replacedIds.includes(quizOut[i]!.postId)) {
-              const replacement = await getReplacementQuestion(candidate, [
-                ...quizOut.map((q) => q.postId),
-                ...replacedIds,
-              ]);
-              if (replacement) quizOut[i] = replacement;
-            }
-          }
+          await cacheQuiz(candidate, quizData, date, config);
+          const quizOut = await applyQuestionReplacements(candidate, quizData, date, config);
           res.json({
-            quiz: quizOut,
+            quiz: await prepareQuizForClient(quizOut, quizPostId),
             ...(usingDailySubreddit && { subreddit: candidate }),
+            recordedAttempt,
+            config,
           });
           return;
         } catch (fetchError) {
           const errorMessage =
             fetchError instanceof Error ? fetchError.message : String(fetchError);
-          const isUnavailable =
-            errorMessage.includes('not found') ||
-            errorMessage.includes('does not exist') ||
-            errorMessage.includes('404') ||
-            errorMessage.includes('403') ||
-            errorMessage.includes('Forbidden') ||
-            errorMessage.includes('banned') ||
-            errorMessage.includes('private') ||
-            errorMessage.includes('restricted') ||
-            errorMessage.includes('Could not find 5 qualifying') ||
-            errorMessage.includes('Could not generate quiz questions');
-          if (usingDailySubreddit && isUnavailable) {
-            await addSubredditToSkipList(candidate);
+          const skipReason = getSkipReason(errorMessage);
+          if (usingDailySubreddit && skipReason) {
+            await addSubredditToSkipList(candidate, skipReason, errorMessage);
             continue;
           }
           // Not daily or not an "unavailable" error - return error to client
@@ -464,15 +1482,373 @@ router.get<unknown, QuizResponse | ErrorResponse, unknown>(
   }
 );
 
-// GET /api/reported-posts?key=ADMIN_SECRET - List post IDs that have been replaced due to inappropriate reports (admin only)
+// POST /api/question-served - Start the clock on a question for the user; returns the countdown left in timed quizzes
+router.post<unknown, QuestionServedResponse | ErrorResponse, Partial<QuestionServedRequest>>(
+  '/api/question-served',
+  async (req, res): Promise<void> => {
+    try {
+      const { questionId, type } = req.body;
+      // Start the clock on the post being played; the body's postId is only a fallback
+      const postId = context.postId ?? req.body.postId;
+      if (!questionId || typeof questionId !== 'string' || !questionId.trim()) {
+        res.status(400).json({ status: 'error', message: 'Question ID is required' });
+        return;
+      }
+      if (type != null && !QUESTION_TYPES.includes(type)) {
+        res.status(400).json({ status: 'error', message: 'Unknown question type' });
+        return;
+      }
+      if (!postId || typeof postId !== 'string' || !postId.trim()) {
+        res.status(400).json({ status: 'error', message: 'Post ID is required' });
+        return;
+      }
+
+      const normalizedPostId = postId.trim();
+      const { secondsPerQuestion } = normalizeQuizConfig(
+        (await getPostMeta(normalizedPostId))?.config
+      );
+      const limitMs = secondsPerQuestion > 0 ? secondsPerQuestion * 1000 : null;
+      const userId = (context as { userId?: string }).userId;
+      if (!userId) {
+        res.json({ remainingMs: limitMs });
+        return;
+      }
+      const practice = (await getRecordedAttempt(normalizedPostId, userId)) != null;
+      const servedAt = await markQuestionServed(
+        normalizedPostId,
+        getQuestionKeyId(questionId.trim(), type),
+        userId,
+        practice
+      );
+      res.json({
+        remainingMs: limitMs == null ? null : Math.max(0, limitMs - (Date.now() - servedAt)),
+      });
+    } catch (error) {
+      console.error('Error recording served question:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to start the question. Please try again.',
+        retryable: true,
+      });
+    }
+  }
+);
+
+// POST /api/answer - Submit the user's pick (commentId), upvote bucket (guess), ranking (order), subreddit or title (titleGuess) for a question, or a time-out (timedOut with type); the server decides correctness
+router.post<unknown, AnswerResponse | ErrorResponse, Partial<AnswerRequest>>(
+  '/api/answer',
+  async (req, res): Promise<void> => {
+    try {
+      const { questionId, commentId, guess, order, subreddit, titleGuess, timedOut, type } =
+        req.body;
+      // Answers count for the post being played; the body's postId is only a fallback
+      const postId = context.postId ?? req.body.postId;
+      if (!questionId || typeof questionId !== 'string' || !questionId.trim()) {
+        res.status(400).json({ status: 'error', message: 'Question ID is required' });
+        return;
+      }
+      if (guess != null && !isValidUpvoteBucket(guess)) {
+        res.status(400).json({ status: 'error', message: 'Guess must be an upvote bucket index' });
+        return;
+      }
+      if (order != null && (!Array.isArray(order) || order.some((id) => typeof id !== 'string'))) {
+        res.status(400).json({ status: 'error', message: 'Order must be a list of comment IDs' });
+        return;
+      }
+      if (subreddit != null && (typeof subreddit !== 'string' || !subreddit.trim())) {
+        res.status(400).json({ status: 'error', message: 'Subreddit must be a non-empty string' });
+        return;
+      }
+      if (titleGuess != null && (typeof titleGuess !== 'string' || !titleGuess)) {
+        res
+          .status(400)
+          .json({ status: 'error', message: 'Title guess must be a non-empty string' });
+        return;
+      }
+      if (timedOut && (type == null || !QUESTION_TYPES.includes(type))) {
+        res.status(400).json({ status: 'error', message: 'Time-outs need the question type' });
+        return;
+      }
+      if (
+        !timedOut &&
+        guess == null &&
+        order == null &&
+        subreddit == null &&
+        titleGuess == null &&
+        (!commentId || typeof commentId !== 'string' || !commentId.trim())
+      ) {
+        res.status(400).json({
+          status: 'error',
+          message: 'Comment ID, guess, order, subreddit or title guess is required',
+        });
+        return;
+      }
+      if (!postId || typeof postId !== 'string' || !postId.trim()) {
+        res.status(400).json({ status: 'error', message: 'Post ID is required' });
+        return;
+      }
+
+      const served = await getServedQuiz(postId.trim());
+      if (!served) {
+        res.status(404).json({ status: 'error', message: 'Quiz post not found' });
+        return;
+      }
+      if (!served.quiz.some((q) => q.postId === questionId.trim())) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Question not found. Please reload the quiz.',
+          retryable: false,
+        });
+        return;
+      }
+
+      const userId = (context as { userId?: string }).userId;
+      // Once the user has a recorded attempt on this post, further answers are practice
+      const practice = userId ? (await getRecordedAttempt(postId.trim(), userId)) != null : false;
+      const { secondsPerQuestion } = served.config;
+      const result = await submitAnswer(
+        postId.trim(),
+        questionId.trim(),
+        timedOut && type
+          ? { timedOut, type }
+          : guess != null
+            ? { guess }
+            : order != null
+              ? { order }
+              : subreddit != null
+                ? { subreddit: subreddit.trim() }
+                : titleGuess != null
+                  ? { titleGuess }
+                  : { commentId: commentId!.trim() },
+        userId,
+        practice,
+        secondsPerQuestion
+      );
+      if (!result) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Question not found. Please reload the quiz.',
+          retryable: false,
+        });
+        return;
+      }
+      res.json(result);
+    } catch (error) {
+      console.error('Error submitting answer:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to submit answer. Please try again.',
+        retryable: true,
+      });
+    }
+  }
+);
+
+// GET /api/answer-drift?postId=POST_ID&questionId=ID&type=TYPE - A question's option upvotes at quiz time and now (only once the caller has answered it)
+router.get<unknown, AnswerDriftResponse | ErrorResponse>(
+  '/api/answer-drift',
+  async (req, res): Promise<void> => {
+    try {
+      const questionId = (req.query.questionId as string | undefined)?.trim();
+      const type = req.query.type as QuestionType | undefined;
+      const postId = ((req.query.postId as string | undefined) ?? context.postId)?.trim();
+      const userId = (context as { userId?: string }).userId;
+      if (!questionId || !postId) {
+        res.status(400).json({ status: 'error', message: 'Post ID and question ID are required' });
+        return;
+      }
+      if (type != null && !QUESTION_TYPES.includes(type)) {
+        res.status(400).json({ status: 'error', message: 'Unknown question type' });
+        return;
+      }
+      // The live scores give the answer away, so only players who've answered see them
+      const keyId = getQuestionKeyId(questionId, type);
+      const answered =
+        userId != null &&
+        ((await hasRecordedPick(postId, userId, keyId)) ||
+          (await getRecordedAttempt(postId, userId)) != null);
+      if (!answered) {
+        res.status(403).json({ status: 'error', message: 'Answer the question first' });
+        return;
+      }
+
+      const question = await getAnswerKey(postId, keyId);
+      const drift = question ? await getAnswerDrift(question) : null;
+      if (!drift) {
+        res
+          .status(404)
+          .json({ status: 'error', message: 'No comments to check for this question' });
+        return;
+      }
+      res.json(drift);
+    } catch (error) {
+      console.error('Error checking answer drift:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to check the live scores',
+        retryable: true,
+      });
+    }
+  }
+);
+
+// POST /api/complete-quiz - Score the user's recorded answers and record their first attempt (leaderboard, stats)
+router.post<unknown, CompleteQuizResponse | ErrorResponse, CompleteQuizRequest>(
+  '/api/complete-quiz',
+  async (req, res): Promise<void> => {
+    try {
+      // Score the post being played; the body's postId is only a fallback
+      const postId = context.postId ?? req.body.postId;
+      const userId = (context as { userId?: string }).userId;
+      if (!postId || typeof postId !== 'string' || !postId.trim()) {
+        res.status(400).json({ status: 'error', message: 'Post ID is required' });
+        return;
+      }
+      if (!userId) {
+        res.status(401).json({ status: 'error', message: 'Log in to record your score' });
+        return;
+      }
+
+      const normalizedPostId = postId.trim();
+
+      // Replays are practice: return the attempt already on record without re-scoring
+      const existingAttempt = await getRecordedAttempt(normalizedPostId, userId);
+      if (existingAttempt) {
+        res.json({
+          score: existingAttempt.score,
+          totalQuestions: existingAttempt.totalQuestions,
+          timeMs: existingAttempt.timeMs,
+          recorded: false,
+          attempt: existingAttempt,
+        });
+        return;
+      }
+
+      // Only quiz posts have attempts, so made-up post IDs can't add leaderboard entries or profile stats
+      const postMeta = await getPostMeta(normalizedPostId);
+      const snapshot = await getPostQuiz(normalizedPostId);
+      const served = await getServedQuiz(normalizedPostId);
+      const post = snapshot ?? postMeta;
+      if (!served || !post) {
+        res.status(404).json({ status: 'error', message: 'Quiz post not found' });
+        return;
+      }
+      const { config } = served;
+      // Older posts whose cached quiz has expired fall back to the configured length
+      const questionCount = served.quiz.length || config.questionsPerQuiz;
+      const { score, totalQuestions, answeredQuestions } = await scoreRecordedAnswers(
+        normalizedPostId,
+        userId,
+        questionCount,
+        config.secondsPerQuestion
+      );
+      if (answeredQuestions === 0) {
+        res.status(400).json({ status: 'error', message: 'No answers recorded for this post' });
+        return;
+      }
+      const startedAt = await getQuizStart(normalizedPostId, userId);
+      const timeMs = startedAt != null ? Date.now() - startedAt : null;
+
+      const { attempt, created: recorded } = await recordAttempt(normalizedPostId, userId, {
+        score,
+        totalQuestions,
+        timeMs,
+      });
+
+      // Leaderboard, lifetime stats and streaks only count the first recorded attempt
+      if (recorded) {
+        const { date, subreddit } = post;
+        const username = (await reddit.getCurrentUsername()) ?? 'anonymous';
+        await recordLeaderboardEntry(date, normalizedPostId, userId, {
+          username,
+          score,
+          totalQuestions,
+          timeMs,
+        });
+        await recordGameResult(userId, {
+          date,
+          subreddit,
+          score,
+          totalQuestions,
+        });
+      }
+
+      res.json({
+        score: attempt.score,
+        totalQuestions: attempt.totalQuestions,
+        timeMs: attempt.timeMs,
+        recorded,
+        attempt,
+      });
+    } catch (error) {
+      console.error('Error completing quiz:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to record your score. Please try again.',
+        retryable: true,
+      });
+    }
+  }
+);
+
+// GET /api/leaderboard?postId=POST_ID&limit=N - Top N first-attempt scores for a post plus the caller's rank
+router.get<unknown, LeaderboardResponse | ErrorResponse>(
+  '/api/leaderboard',
+  async (req, res): Promise<void> => {
+    try {
+      const postId = (req.query.postId as string | undefined) ?? context.postId;
+      if (!postId || !postId.trim()) {
+        res.status(400).json({ status: 'error', message: 'Post ID is required' });
+        return;
+      }
+      const limitParam = req.query.limit as string | undefined;
+      const parsedLimit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LEADERBOARD_LIMIT;
+      const limit = Number.isFinite(parsedLimit)
+        ? Math.min(Math.max(1, parsedLimit), MAX_LEADERBOARD_LIMIT)
+        : DEFAULT_LEADERBOARD_LIMIT;
+
+      const normalizedPostId = postId.trim();
+      const date =
+        (await getPostMeta(normalizedPostId))?.date ?? new Date().toISOString().split('T')[0]!;
+      const userId = (context as { userId?: string }).userId;
+      res.json(await getLeaderboard(date, normalizedPostId, limit, userId));
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to load leaderboard.',
+        retryable: true,
+      });
+    }
+  }
+);
+
+// GET /api/me - The current user's lifetime stats and streaks (profile is null when logged out)
+router.get<unknown, MeResponse | ErrorResponse>('/api/me', async (_req, res): Promise<void> => {
+  try {
+    const userId = (context as { userId?: string }).userId;
+    res.json({ profile: userId ? await getPlayerProfile(userId) : null });
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to load your stats.',
+      retryable: true,
+    });
+  }
+});
+
+// GET /api/reported-posts?key=ADMIN_SECRET - Review queue of reported questions plus replaced/banned post IDs (admin only)
 router.get('/api/reported-posts', async (req, res): Promise<void> => {
   if (!requireAdminSecret(req, res)) return;
   try {
-    const replacedPostIds = await getReplacedPostIds();
-    res.json({
-      replacedPostIds,
-      count: replacedPostIds.length,
-    });
+    const response: ReportQueueResponse = {
+      pending: await getReviewQueue(),
+      threshold: await getReportThreshold(),
+      replacedPostIds: await getReplacedPostIds(),
+      bannedPostIds: await getBannedPostIds(),
+    };
+    res.json(response);
   } catch (error) {
     console.error('Error fetching reported posts:', error);
     res.status(500).json({
@@ -482,6 +1858,86 @@ router.get('/api/reported-posts', async (req, res): Promise<void> => {
   }
 });
 
+// POST /api/reported-posts/resolve?key=ADMIN_SECRET - Resolve a report with body { postId, decision: confirm|dismiss|ban } (admin only)
+router.post('/api/reported-posts/resolve', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { postId, decision } = req.body as { postId?: string; decision?: string };
+    if (!postId?.trim() || !isReportDecision(decision)) {
+      res.status(400).json({
+        status: 'error',
+        message: 'postId and decision (confirm, dismiss or ban) are required',
+      });
+      return;
+    }
+    const resolved = await resolveReport(postId, decision);
+    if (!resolved) {
+      res.status(404).json({ status: 'error', message: `Post ${postId} has no pending reports` });
+      return;
+    }
+    res.json({ resolved, postId: postId.trim(), decision });
+  } catch (error) {
+    console.error('Error resolving report:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to resolve report' });
+  }
+});
+
+// POST /api/reported-posts/threshold?key=ADMIN_SECRET - Set reports needed to enter the queue with body { threshold } (admin only)
+router.post('/api/reported-posts/threshold', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const { threshold } = req.body as { threshold?: number };
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 1) {
+      res.status(400).json({ status: 'error', message: 'Threshold must be a number >= 1' });
+      return;
+    }
+    res.json({ threshold: await setReportThreshold(threshold) });
+  } catch (error) {
+    console.error('Error setting report threshold:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to set report threshold' });
+  }
+});
+
+// GET /api/quiz-replacements?postId=POST_ID | subreddit=NAME&date=YYYY-MM-DD&key=ADMIN_SECRET - Questions swapped out of a cached quiz and why (admin only)
+router.get('/api/quiz-replacements', async (req, res): Promise<void> => {
+  if (!requireAdminSecret(req, res)) return;
+  try {
+    const postId = req.query.postId as string | undefined;
+    // Posts with a frozen quiz keep their own record of swaps
+    const snapshot = postId ? await getPostQuiz(postId) : null;
+    if (snapshot) {
+      const response: QuizReplacementsResponse = {
+        subreddit: snapshot.subreddit,
+        date: snapshot.date,
+        replacements: snapshot.replacements,
+      };
+      res.json(response);
+      return;
+    }
+    const postMeta = postId ? await getPostMeta(postId) : null;
+    if (postId && !postMeta) {
+      res.status(404).json({ status: 'error', message: `No quiz metadata for post ${postId}` });
+      return;
+    }
+    const subreddit = postMeta?.subreddit ?? (req.query.subreddit as string | undefined);
+    const date = postMeta?.date ?? (req.query.date as string | undefined) ?? todayDate();
+    if (!subreddit) {
+      res.status(400).json({ status: 'error', message: 'postId or subreddit is required' });
+      return;
+    }
+    const config = normalizeQuizConfig(postMeta?.config);
+    const response: QuizReplacementsResponse = {
+      subreddit,
+      date,
+      replacements: await getQuizReplacements(subreddit, date, config),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error getting quiz replacements:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to get quiz replacements' });
+  }
+});
+
 // POST /api/report-post - Report a quiz question (post) as inappropriate
 router.post('/api/report-post', async (req, res): Promise<void> => {
   try {
@@ -494,7 +1950,23 @@ router.post('/api/report-post', async (req, res): Promise<void> => {
       userId != null && typeof userId === 'string'
         ? userId.trim()
         : (context as { userId?: string }).userId;
-    const count = await incrementReportCount(postId.trim(), reporterId || undefined);
+    // The question may have been served as any type, on the quiz post being played
+    const quizPostId = context.postId;
+    const answerKeys = quizPostId
+      ? await Promise.all(
+          QUESTION_TYPES.map((type) =>
+            getAnswerKey(quizPostId, getQuestionKeyId(postId.trim(), type))
+          )
+        )
+      : [];
+    const question = answerKeys.find((key) => key != null) ?? null;
+    const count = await incrementReportCount(
+      postId.trim(),
+      reporterId || undefined,
+      question
+        ? { title: question.title, subreddit: subredditFromPermalink(question.permalink) }
+        : undefined
+    );
     res.json({ reported: true, count });
   } catch (error) {
     console.error('Error reporting post:', error);
@@ -506,12 +1978,11 @@ router.post('/api/report-post', async (req, res): Promise<void> => {
 });
 
 // POST /api/share-score - Share user's score as a comment on the post
+// The score comes from the user's recorded first attempt; any score in the request body is ignored
 router.post('/api/share-score', async (req, res): Promise<void> => {
   try {
-    const { postId, score, totalQuestions, subreddit, strategy, question } = req.body as {
+    const { postId, subreddit, strategy, question } = req.body as {
       postId?: string;
-      score: number;
-      totalQuestions: number;
       subreddit: string;
       strategy?: string;
       question?: string;
@@ -522,17 +1993,6 @@ router.post('/api/share-score', async (req, res): Promise<void> => {
       res.status(400).json({ status: 'error', message: 'Post ID is required' });
       return;
     }
-    if (
-      typeof score !== 'number' ||
-      isNaN(score) ||
-      typeof totalQuestions !== 'number' ||
-      isNaN(totalQuestions)
-    ) {
-      res
-        .status(400)
-        .json({ status: 'error', message: 'Score and total questions must be valid numbers' });
-      return;
-    }
     if (typeof subreddit !== 'string' || !subreddit.trim()) {
       res.status(400).json({ status: 'error', message: 'Subreddit must be a valid string' });
       return;
@@ -542,8 +2002,19 @@ router.post('/api/share-score', async (req, res): Promise<void> => {
       return;
     }
 
+    const userId = (context as { userId?: string }).userId;
+    const attempt = userId ? await getRecordedAttempt(postId.trim(), userId) : null;
+    if (!attempt) {
+      res.status(409).json({
+        status: 'error',
+        message: 'Finish the quiz before sharing your score',
+      });
+      return;
+    }
+    const { score, totalQuestions } = attempt;
+
     const percentage = Math.round((score / totalQuestions) * 100);
-    const scoreText = `I scored ${score}/${totalQuestions} (${percentage}%) on today's How Hivemind r/ You? challenge for r/${subreddit}!`;
+    const scoreText = `I scored ${formatScore(score)}/${totalQuestions} (${percentage}%) on today's How Hivemind r/ You? challenge for r/${subreddit}!`;
     const prompt =
       question && typeof question === 'string' && question.trim()
         ? question.trim()
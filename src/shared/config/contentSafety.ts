@@ -0,0 +1,30 @@
+/**
+ * Content-safety lists mods edit without a deploy, checked against post titles, selftext and
+ * comment bodies before a post can become a question. Personal info (emails, phone numbers)
+ * is always checked on top of these.
+ */
+export type ContentSafetySettings = {
+  /** Words or phrases (case-insensitive, whole words) that disqualify a post everywhere */
+  blockedWords: string[];
+  /** Regular expressions, as /pattern/flags or a bare pattern (case-insensitive) */
+  patterns: string[];
+  /** Per-subreddit changes, by lowercase name */
+  overrides: Record<string, ContentSafetyOverride>;
+};
+
+export type ContentSafetyOverride = {
+  /** Extra words or phrases blocked in this subreddit only */
+  blocked: string[];
+  /** Global words or patterns (as written in the global list) that are fine in this subreddit */
+  allowed: string[];
+};
+
+/**
+ * Nothing ships blocked: which words are off-limits depends on the community, so mods fill in
+ * the lists under "Edit content filters" (only the personal-info checks apply until then)
+ */
+export const DEFAULT_CONTENT_SAFETY: ContentSafetySettings = {
+  blockedWords: [],
+  patterns: [],
+  overrides: {},
+};
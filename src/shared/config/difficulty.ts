@@ -0,0 +1,20 @@
+/**
+ * Question difficulty runs from 0 (trivial: the top comment ran away with it) to 1 (a near tie).
+ * It starts from the upvote margin at generation time and is refined by player accuracy.
+ */
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+/** Upper bounds (exclusive) for each level; anything above medium is hard */
+const LEVEL_THRESHOLDS = { easy: 0.4, medium: 0.75 } as const;
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export function getDifficultyLevel(difficulty: number): DifficultyLevel {
+  if (difficulty < LEVEL_THRESHOLDS.easy) return 'easy';
+  if (difficulty < LEVEL_THRESHOLDS.medium) return 'medium';
+  return 'hard';
+}
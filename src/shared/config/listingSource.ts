@@ -0,0 +1,84 @@
+/**
+ * Which Reddit listing quiz posts are drawn from, set per subreddit. Hot posts are still
+ * collecting votes, so their top comment can change after the quiz is made; top listings
+ * have settled, and slow subreddits need a week to have enough of them.
+ */
+export type ListingSource =
+  | { sort: 'hot' }
+  | { sort: 'top'; timeframe: TopTimeframe }
+  | { sort: 'rising' }
+  /** Newest posts, skipping any younger than minAgeHours so votes have time to come in */
+  | { sort: 'new'; minAgeHours: number };
+
+export type TopTimeframe = 'day' | 'week' | 'month';
+
+const TOP_TIMEFRAMES: readonly TopTimeframe[] = ['day', 'week', 'month'];
+
+export const DEFAULT_LISTING_SOURCE: ListingSource = { sort: 'hot' };
+
+const MIN_AGE_HOURS = { min: 1, max: 72 } as const;
+
+/**
+ * Short form used in forms, logs and cached quizzes: hot, top-day, top-week, top-month,
+ * rising, new-6h
+ */
+export function formatListingSource(source: ListingSource): string {
+  switch (source.sort) {
+    case 'top':
+      return `top-${source.timeframe}`;
+    case 'new':
+      return `new-${source.minAgeHours}h`;
+    default:
+      return source.sort;
+  }
+}
+
+/**
+ * Parse the short form (case-insensitive), or null if it isn't one
+ */
+export function parseListingSource(text: string): ListingSource | null {
+  const value = text.trim().toLowerCase();
+  if (value === 'hot' || value === 'rising') return { sort: value };
+  const top = /^top-(\w+)$/.exec(value);
+  if (top) {
+    const timeframe = TOP_TIMEFRAMES.find((t) => t === top[1]);
+    return timeframe ? { sort: 'top', timeframe } : null;
+  }
+  const fresh = /^new-(\d+)h?$/.exec(value);
+  if (fresh) {
+    const hours = parseInt(fresh[1]!, 10);
+    if (hours < MIN_AGE_HOURS.min || hours > MIN_AGE_HOURS.max) return null;
+    return { sort: 'new', minAgeHours: hours };
+  }
+  return null;
+}
+
+/**
+ * Rules every candidate post must pass, whatever its listing: fresh posts with few comments
+ * are still reshuffling, so their top comment is likely to change once players look.
+ */
+export type SettleFilter = {
+  /** Posts younger than this are skipped (new-Nh sources use the larger of the two) */
+  minPostAgeHours: number;
+  /** Posts with fewer comments than this are skipped */
+  minComments: number;
+};
+
+export const DEFAULT_SETTLE_FILTER: SettleFilter = { minPostAgeHours: 3, minComments: 10 };
+
+const SETTLE_LIMITS = {
+  minPostAgeHours: { min: 0, max: 72 },
+  minComments: { min: 0, max: 1000 },
+} as const;
+
+/**
+ * Fill in defaults and clamp each field to its range (e.g. values parsed from Redis or a form)
+ */
+export function normalizeSettleFilter(filter?: Partial<SettleFilter> | null): SettleFilter {
+  const clamp = (field: keyof SettleFilter): number => {
+    const n = Number(filter?.[field]);
+    if (filter?.[field] == null || !Number.isFinite(n)) return DEFAULT_SETTLE_FILTER[field];
+    return Math.min(Math.max(Math.round(n), SETTLE_LIMITS[field].min), SETTLE_LIMITS[field].max);
+  };
+  return { minPostAgeHours: clamp('minPostAgeHours'), minComments: clamp('minComments') };
+}
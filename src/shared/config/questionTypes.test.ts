@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getUpvoteBucket,
+  isValidRanking,
+  isValidUpvoteBucket,
+  scoreRanking,
+  scoreUpvoteGuess,
+} from './questionTypes';
+
+describe('getUpvoteBucket', () => {
+  it('puts each bucket minimum in its own bucket and the value below it in the previous one', () => {
+    expect(getUpvoteBucket(0)).toBe(0);
+    expect(getUpvoteBucket(49)).toBe(0);
+    expect(getUpvoteBucket(50)).toBe(1);
+    expect(getUpvoteBucket(249)).toBe(1);
+    expect(getUpvoteBucket(250)).toBe(2);
+    expect(getUpvoteBucket(999)).toBe(2);
+    expect(getUpvoteBucket(1000)).toBe(3);
+    expect(getUpvoteBucket(4999)).toBe(3);
+    expect(getUpvoteBucket(5000)).toBe(4);
+    expect(getUpvoteBucket(19999)).toBe(4);
+    expect(getUpvoteBucket(20000)).toBe(5);
+  });
+
+  it('keeps negative scores in the lowest bucket and huge ones in the highest', () => {
+    expect(getUpvoteBucket(-12)).toBe(0);
+    expect(getUpvoteBucket(1_000_000)).toBe(5);
+  });
+});
+
+describe('isValidUpvoteBucket', () => {
+  it('accepts only whole bucket indexes', () => {
+    expect(isValidUpvoteBucket(0)).toBe(true);
+    expect(isValidUpvoteBucket(5)).toBe(true);
+    expect(isValidUpvoteBucket(6)).toBe(false);
+    expect(isValidUpvoteBucket(-1)).toBe(false);
+    expect(isValidUpvoteBucket(1.5)).toBe(false);
+    expect(isValidUpvoteBucket('1')).toBe(false);
+    expect(isValidUpvoteBucket(null)).toBe(false);
+  });
+});
+
+describe('scoreUpvoteGuess', () => {
+  it('gives a point for the right bucket', () => {
+    expect(scoreUpvoteGuess(2, 250)).toBe(1);
+    expect(scoreUpvoteGuess(2, 999)).toBe(1);
+  });
+
+  it('gives half a point one bucket off on either side', () => {
+    expect(scoreUpvoteGuess(1, 250)).toBe(0.5);
+    expect(scoreUpvoteGuess(3, 999)).toBe(0.5);
+  });
+
+  it('gives nothing two or more buckets off', () => {
+    expect(scoreUpvoteGuess(0, 250)).toBe(0);
+    expect(scoreUpvoteGuess(5, 999)).toBe(0);
+  });
+
+  it('scores across a bucket boundary by the bucket the upvotes fall in', () => {
+    expect(scoreUpvoteGuess(1, 49)).toBe(0.5);
+    expect(scoreUpvoteGuess(1, 50)).toBe(1);
+    expect(scoreUpvoteGuess(5, 19999)).toBe(0.5);
+    expect(scoreUpvoteGuess(5, 20000)).toBe(1);
+  });
+});
+
+describe('scoreRanking', () => {
+  const correct = ['a', 'b', 'c', 'd'];
+
+  it('gives a point for the right order and nothing for the reverse', () => {
+    expect(scoreRanking(['a', 'b', 'c', 'd'], correct)).toBe(1);
+    expect(scoreRanking(['d', 'c', 'b', 'a'], correct)).toBe(0);
+  });
+
+  it('credits the share of pairs in the right order, rounded to hundredths', () => {
+    // One adjacent swap breaks 1 of 6 pairs
+    expect(scoreRanking(['b', 'a', 'c', 'd'], correct)).toBe(0.83);
+    // Moving the last comment to the top breaks 3 of 6
+    expect(scoreRanking(['d', 'a', 'b', 'c'], correct)).toBe(0.5);
+    // Swapping the ends breaks 5 of 6
+    expect(scoreRanking(['d', 'b', 'c', 'a'], correct)).toBe(0.17);
+    expect(scoreRanking(['a', 'c', 'b'], ['a', 'b', 'c'])).toBe(0.67);
+  });
+
+  it('gives a point when there is nothing to order', () => {
+    expect(scoreRanking(['a'], ['a'])).toBe(1);
+    expect(scoreRanking([], [])).toBe(1);
+  });
+
+  it('never credits a pair the ranking leaves out', () => {
+    // Missing comments share a position, so neither counts as above the other
+    expect(scoreRanking(['a', 'b'], correct)).toBe(0.17);
+  });
+});
+
+describe('isValidRanking', () => {
+  const ids = ['a', 'b', 'c'];
+
+  it('accepts every comment exactly once in any order', () => {
+    expect(isValidRanking(['c', 'a', 'b'], ids)).toBe(true);
+  });
+
+  it('rejects missing, repeated, unknown or extra comments', () => {
+    expect(isValidRanking(['a', 'b'], ids)).toBe(false);
+    expect(isValidRanking(['a', 'a', 'b'], ids)).toBe(false);
+    expect(isValidRanking(['a', 'b', 'x'], ids)).toBe(false);
+    expect(isValidRanking(['a', 'b', 'c', 'd'], ids)).toBe(false);
+  });
+
+  it('rejects anything but a list of IDs', () => {
+    expect(isValidRanking('a,b,c', ids)).toBe(false);
+    expect(isValidRanking([1, 2, 3], ids)).toBe(false);
+    expect(isValidRanking(null, ids)).toBe(false);
+  });
+});
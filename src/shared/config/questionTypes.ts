@@ -0,0 +1,113 @@
+/**
+ * Question types a quiz can mix:
+ * - top-comment: pick the top-voted comment from the options (1 point or 0)
+ * - upvote-guess: see one comment and guess its upvotes in a bucket (1 point exact, 0.5 adjacent)
+ * - rank-comments: put every option in upvote order (partial credit per correctly ordered pair)
+ * - which-subreddit: name the subreddit a post is from (1 point or 0)
+ * - guess-title: see a post's content and top comment, pick its real title (1 point or 0)
+ */
+export type QuestionType =
+  | 'top-comment'
+  | 'upvote-guess'
+  | 'rank-comments'
+  | 'which-subreddit'
+  | 'guess-title';
+
+export const QUESTION_TYPES: readonly QuestionType[] = [
+  'top-comment',
+  'upvote-guess',
+  'rank-comments',
+  'which-subreddit',
+  'guess-title',
+];
+
+/** Upvote ranges players pick from; each bucket covers [min, next bucket's min) */
+export const UPVOTE_BUCKETS = [
+  { label: 'Under 50', min: 0 },
+  { label: '50-249', min: 50 },
+  { label: '250-999', min: 250 },
+  { label: '1k-4.9k', min: 1000 },
+  { label: '5k-19.9k', min: 5000 },
+  { label: '20k+', min: 20000 },
+] as const;
+
+/** Points for a guess one bucket away from the right one */
+const ADJACENT_BUCKET_POINTS = 0.5;
+
+export function getUpvoteBucket(ups: number): number {
+  let bucket = 0;
+  UPVOTE_BUCKETS.forEach((b, i) => {
+    if (ups >= b.min) bucket = i;
+  });
+  return bucket;
+}
+
+export function isValidUpvoteBucket(bucket: unknown): bucket is number {
+  return (
+    typeof bucket === 'number' &&
+    Number.isInteger(bucket) &&
+    bucket >= 0 &&
+    bucket < UPVOTE_BUCKETS.length
+  );
+}
+
+/**
+ * Points for guessing `guessBucket` when the comment has `ups` upvotes
+ */
+export function scoreUpvoteGuess(guessBucket: number, ups: number): number {
+  const distance = Math.abs(guessBucket - getUpvoteBucket(ups));
+  if (distance === 0) return 1;
+  if (distance === 1) return ADJACENT_BUCKET_POINTS;
+  return 0;
+}
+
+/**
+ * Whether `order` is every one of `commentIds` exactly once
+ */
+export function isValidRanking(order: unknown, commentIds: string[]): order is string[] {
+  return (
+    Array.isArray(order) &&
+    order.length === commentIds.length &&
+    new Set(order).size === order.length &&
+    order.every((id) => typeof id === 'string' && commentIds.includes(id))
+  );
+}
+
+/**
+ * Kendall tau style credit for a ranking: the share of comment pairs the player put in the
+ * same order as `correctOrder` (highest upvoted first), rounded to hundredths
+ */
+export function scoreRanking(order: string[], correctOrder: string[]): number {
+  const position = new Map(order.map((id, i) => [id, i]));
+  let pairs = 0;
+  let concordant = 0;
+  for (let i = 0; i < correctOrder.length; i++) {
+    for (let j = i + 1; j < correctOrder.length; j++) {
+      pairs++;
+      if ((position.get(correctOrder[i]!) ?? 0) < (position.get(correctOrder[j]!) ?? 0)) {
+        concordant++;
+      }
+    }
+  }
+  return pairs === 0 ? 1 : Math.round((concordant / pairs) * 100) / 100;
+}
+
+/**
+ * Scores can be fractional once upvote guesses and rankings are in the mix: show whole numbers as-is
+ * and anything else to one decimal place
+ */
+export function formatScore(score: number): string {
+  return Number.isInteger(score) ? score.toString() : score.toFixed(1);
+}
+
+/**
+ * ID a question's answer key, recorded picks and stats are stored under. Other types get their
+ * own so the same post can also be a top-comment question in another quiz.
+ */
+export function getQuestionKeyId(postId: string, type?: QuestionType): string {
+  if (type === 'upvote-guess') return `${postId}:upvotes`;
+  if (type === 'rank-comments') return `${postId}:rank`;
+  if (type === 'which-subreddit') return `${postId}:subreddit`;
+  if (type === 'guess-title') return `${postId}:title`;
+  return postId;
+}
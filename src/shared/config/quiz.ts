@@ -0,0 +1,149 @@
+/**
+ * Per-post quiz configuration, chosen when the post is created and stored in post_meta
+ */
+export type QuizConfig = {
+  /** Number of questions in the quiz */
+  questionsPerQuiz: number;
+  /** Number of comment options shown per question */
+  optionsPerQuestion: number;
+  /** Minimum upvote lead the top comment needs over the runner-up */
+  minUpvoteGap: number;
+  /** How many questions are "guess the upvote count" instead of "pick the top comment" */
+  upvoteGuessQuestions: number;
+  /** How many questions ask players to put every option in upvote order */
+  rankCommentsQuestions: number;
+  /** How many questions are "which subreddit is this from?", with posts from other subreddits */
+  whichSubredditQuestions: number;
+  /** How many questions show a post's content and top comment and ask for its real title */
+  guessTitleQuestions: number;
+  /** Timed mode: seconds to answer each question, with faster answers worth more (0 = untimed) */
+  secondsPerQuestion: number;
+};
+
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  questionsPerQuiz: 5,
+  optionsPerQuestion: 3,
+  minUpvoteGap: 1,
+  upvoteGuessQuestions: 0,
+  rankCommentsQuestions: 0,
+  whichSubredditQuestions: 0,
+  guessTitleQuestions: 0,
+  secondsPerQuestion: 0,
+};
+
+/**
+ * Named presets mods can pick when creating a post
+ */
+export const QUIZ_PRESETS = {
+  standard: { label: "Today's Challenge", config: DEFAULT_QUIZ_CONFIG },
+  snack: {
+    label: 'Snack Quiz',
+    config: { ...DEFAULT_QUIZ_CONFIG, questionsPerQuiz: 3 },
+  },
+  weekend: {
+    label: 'Weekend Edition',
+    config: {
+      ...DEFAULT_QUIZ_CONFIG,
+      questionsPerQuiz: 10,
+      upvoteGuessQuestions: 2,
+      rankCommentsQuestions: 1,
+      whichSubredditQuestions: 2,
+      guessTitleQuestions: 1,
+    },
+  },
+  speed: {
+    label: 'Speed Round',
+    config: { ...DEFAULT_QUIZ_CONFIG, secondsPerQuestion: 20 },
+  },
+} as const satisfies Record<string, { label: string; config: QuizConfig }>;
+
+export type QuizPreset = keyof typeof QUIZ_PRESETS;
+
+const LIMITS = {
+  questionsPerQuiz: { min: 1, max: 20 },
+  optionsPerQuestion: { min: 2, max: 5 },
+  minUpvoteGap: { min: 1, max: 10000 },
+  upvoteGuessQuestions: { min: 0, max: 20 },
+  rankCommentsQuestions: { min: 0, max: 20 },
+  whichSubredditQuestions: { min: 0, max: 19 },
+  guessTitleQuestions: { min: 0, max: 20 },
+  secondsPerQuestion: { min: 0, max: 120 },
+} as const;
+
+/** Config fields counting how many questions are of a non-default type */
+type QuestionTypeCountField =
+  | 'upvoteGuessQuestions'
+  | 'rankCommentsQuestions'
+  | 'whichSubredditQuestions'
+  | 'guessTitleQuestions';
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(Math.round(n), min), max);
+}
+
+/**
+ * Fill in defaults and clamp each field to a sane range (e.g. config parsed from Redis)
+ */
+export function normalizeQuizConfig(config?: Partial<QuizConfig> | null): QuizConfig {
+  const questionsPerQuiz = clampInt(
+    config?.questionsPerQuiz,
+    LIMITS.questionsPerQuiz.min,
+    LIMITS.questionsPerQuiz.max,
+    DEFAULT_QUIZ_CONFIG.questionsPerQuiz
+  );
+  const typeCount = (field: QuestionTypeCountField, max: number): number =>
+    Math.min(
+      clampInt(config?.[field], LIMITS[field].min, LIMITS[field].max, DEFAULT_QUIZ_CONFIG[field]),
+      max
+    );
+  // Question types share the questions: each count is capped by what the earlier ones leave,
+  // and at least one question comes from the quiz's own subreddit
+  const whichSubredditQuestions = typeCount('whichSubredditQuestions', questionsPerQuiz - 1);
+  let remaining = questionsPerQuiz - whichSubredditQuestions;
+  const upvoteGuessQuestions = typeCount('upvoteGuessQuestions', remaining);
+  remaining -= upvoteGuessQuestions;
+  const rankCommentsQuestions = typeCount('rankCommentsQuestions', remaining);
+  remaining -= rankCommentsQuestions;
+  const guessTitleQuestions = typeCount('guessTitleQuestions', remaining);
+
+  return {
+    questionsPerQuiz,
+    optionsPerQuestion: clampInt(
+      config?.optionsPerQuestion,
+      LIMITS.optionsPerQuestion.min,
+      LIMITS.optionsPerQuestion.max,
+      DEFAULT_QUIZ_CONFIG.optionsPerQuestion
+    ),
+    minUpvoteGap: clampInt(
+      config?.minUpvoteGap,
+      LIMITS.minUpvoteGap.min,
+      LIMITS.minUpvoteGap.max,
+      DEFAULT_QUIZ_CONFIG.minUpvoteGap
+    ),
+    upvoteGuessQuestions,
+    rankCommentsQuestions,
+    whichSubredditQuestions,
+    guessTitleQuestions,
+    secondsPerQuestion: clampInt(
+      config?.secondsPerQuestion,
+      LIMITS.secondsPerQuestion.min,
+      LIMITS.secondsPerQuestion.max,
+      DEFAULT_QUIZ_CONFIG.secondsPerQuestion
+    ),
+  };
+}
+
+export function isDefaultQuizConfig(config: QuizConfig): boolean {
+  return (
+    config.questionsPerQuiz === DEFAULT_QUIZ_CONFIG.questionsPerQuiz &&
+    config.optionsPerQuestion === DEFAULT_QUIZ_CONFIG.optionsPerQuestion &&
+    config.minUpvoteGap === DEFAULT_QUIZ_CONFIG.minUpvoteGap &&
+    config.upvoteGuessQuestions === DEFAULT_QUIZ_CONFIG.upvoteGuessQuestions &&
+    config.rankCommentsQuestions === DEFAULT_QUIZ_CONFIG.rankCommentsQuestions &&
+    config.whichSubredditQuestions === DEFAULT_QUIZ_CONFIG.whichSubredditQuestions &&
+    config.guessTitleQuestions === DEFAULT_QUIZ_CONFIG.guessTitleQuestions &&
+    config.secondsPerQuestion === DEFAULT_QUIZ_CONFIG.secondsPerQuestion
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Question-quality scorers. Each rates a candidate post 0-1; a weighted average ranks the
+ * posts that pass the hard filters. Some scorers also reject outright (see server/core/scoring).
+ */
+export type ScorerName =
+  /** How far the top comment leads the runner-up, relative to its score */
+  | 'upvoteMargin'
+  /** Options of similar length, so the answer can't be guessed by length */
+  | 'lengthBalance'
+  /** Post has an image or video */
+  | 'media'
+  /** Post is old enough for comment votes to have settled */
+  | 'postAge'
+  /** Options don't look alike (identical options are rejected) */
+  | 'duplicateOptions'
+  /** No option is a bare link (rejected) */
+  | 'linkOnly'
+  /** Short post and options, to reduce scrolling */
+  | 'brevity';
+
+export type ScorerWeights = Record<ScorerName, number>;
+
+export const SCORER_NAMES: readonly ScorerName[] = [
+  'upvoteMargin',
+  'lengthBalance',
+  'media',
+  'postAge',
+  'duplicateOptions',
+  'linkOnly',
+  'brevity',
+];
+
+/** A weight of 0 turns a scorer off, including its rejections */
+export const DEFAULT_SCORER_WEIGHTS: ScorerWeights = {
+  upvoteMargin: 1,
+  lengthBalance: 1,
+  media: 0.5,
+  postAge: 0.5,
+  duplicateOptions: 1,
+  linkOnly: 1,
+  brevity: 2,
+};
+
+const MAX_WEIGHT = 10;
+
+/**
+ * Fill in default weights and clamp each to 0-10 (e.g. weights parsed from Redis)
+ */
+export function normalizeScorerWeights(weights?: Partial<ScorerWeights> | null): ScorerWeights {
+  const result = { ...DEFAULT_SCORER_WEIGHTS };
+  for (const name of SCORER_NAMES) {
+    const value = weights?.[name];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[name] = Math.min(Math.max(0, value), MAX_WEIGHT);
+    }
+  }
+  return result;
+}
@@ -4,6 +4,9 @@ export const OFFICIAL_SUBREDDIT = 'AreYouHivemind';
 /**
  * Approved subreddits for daily quiz rotation
  * These subreddits are curated to ensure quality content and appropriate topics
+ *
+ * This is only the seed default: the live rotation is stored in Redis and edited by mods
+ * (see src/server/core/rotation.ts). Functions below take the live list as a parameter.
  */
 export const APPROVED_SUBREDDITS = [
   'BrandNewSentence',
@@ -26,9 +29,12 @@ export type ApprovedSubreddit = (typeof APPROVED_SUBREDDITS)[number];
  *
  * Pass override to force a specific subreddit (e.g. for testing).
  */
-export function getDailySubreddit(override?: string): ApprovedSubreddit {
-  if (override && APPROVED_SUBREDDITS.includes(override as ApprovedSubreddit)) {
-    return override as ApprovedSubreddit;
+export function getDailySubreddit(
+  override?: string,
+  subreddits: readonly string[] = APPROVED_SUBREDDITS
+): string {
+  if (override && subreddits.includes(override)) {
+    return override;
   }
 
   // Get day of year (1-365/366)
@@ -38,35 +44,40 @@ export function getDailySubreddit(override?: string): ApprovedSubreddit {
   const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
 
   // Use modulo to cycle through subreddits
-  const index = dayOfYear % APPROVED_SUBREDDITS.length;
-  return APPROVED_SUBREDDITS[index]!;
+  const index = dayOfYear % subreddits.length;
+  return subreddits[index]!;
 }
 
 /**
  * Get the daily subreddit for a specific date (useful for testing/caching)
  */
-export function getDailySubredditForDate(date: Date): ApprovedSubreddit {
+export function getDailySubredditForDate(
+  date: Date,
+  subreddits: readonly string[] = APPROVED_SUBREDDITS
+): string {
   const start = new Date(date.getFullYear(), 0, 0);
   const diff = date.getTime() - start.getTime();
   const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
 
-  const index = dayOfYear % APPROVED_SUBREDDITS.length;
-  return APPROVED_SUBREDDITS[index]!;
+  const index = dayOfYear % subreddits.length;
+  return subreddits[index]!;
 }
 
 /**
- * Subreddits in rotation order starting from today (for trying next on failure)
+ * Subreddits in rotation order starting from `date`'s subreddit (today by default), for trying
+ * next on failure
  */
-export function getSubredditsInRotationOrder(): ApprovedSubreddit[] {
-  const dayOfYear =
-    Math.floor(
-      (Date.now() - new Date(new Date().getFullYear(), 0, 0).getTime()) / (1000 * 60 * 60 * 24)
-    ) % APPROVED_SUBREDDITS.length;
-  const startIndex = dayOfYear % APPROVED_SUBREDDITS.length;
-  const result: ApprovedSubreddit[] = [];
-  for (let i = 0; i < APPROVED_SUBREDDITS.length; i++) {
-    const index = (startIndex + i) % APPROVED_SUBREDDITS.length;
-    result.push(APPROVED_SUBREDDITS[index]!);
+export function getSubredditsInRotationOrder(
+  subreddits: readonly string[] = APPROVED_SUBREDDITS,
+  date: Date = new Date()
+): string[] {
+  const start = new Date(date.getFullYear(), 0, 0);
+  const dayOfYear = Math.floor((date.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+  const startIndex = dayOfYear % subreddits.length;
+  const result: string[] = [];
+  for (let i = 0; i < subreddits.length; i++) {
+    const index = (startIndex + i) % subreddits.length;
+    result.push(subreddits[index]!);
   }
   return result;
 }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ANSWER_GRACE_MS, isTimedOut, scoreWithSpeed } from './timing';
+
+describe('isTimedOut', () => {
+  it('allows answers up to the countdown plus the grace period', () => {
+    expect(isTimedOut(0, 20)).toBe(false);
+    expect(isTimedOut(20_000, 20)).toBe(false);
+    expect(isTimedOut(20_000 + ANSWER_GRACE_MS, 20)).toBe(false);
+  });
+
+  it('times out answers past the grace period', () => {
+    expect(isTimedOut(20_000 + ANSWER_GRACE_MS + 1, 20)).toBe(true);
+    expect(isTimedOut(60_000, 20)).toBe(true);
+  });
+
+  it('never times out untimed quizzes', () => {
+    expect(isTimedOut(10 * 60_000, 0)).toBe(false);
+  });
+
+  it("doesn't time out an answer with no recorded serve time", () => {
+    expect(isTimedOut(null, 20)).toBe(false);
+  });
+});
+
+describe('scoreWithSpeed', () => {
+  it('keeps every point for an instant answer and half at the buzzer', () => {
+    expect(scoreWithSpeed(1, 0, 20)).toBe(1);
+    expect(scoreWithSpeed(1, 20_000, 20)).toBe(0.5);
+  });
+
+  it('scales linearly in between', () => {
+    expect(scoreWithSpeed(1, 10_000, 20)).toBe(0.75);
+    expect(scoreWithSpeed(0.5, 10_000, 20)).toBe(0.38);
+  });
+
+  it('keeps the buzzer share for answers in the grace period', () => {
+    expect(scoreWithSpeed(1, 20_000 + ANSWER_GRACE_MS, 20)).toBe(0.5);
+  });
+
+  it('scores an answer with no recorded serve time as if at the buzzer', () => {
+    expect(scoreWithSpeed(1, null, 20)).toBe(0.5);
+    expect(scoreWithSpeed(0.5, null, 20)).toBe(0.25);
+  });
+
+  it('leaves untimed quizzes and wrong answers alone', () => {
+    expect(scoreWithSpeed(1, null, 0)).toBe(1);
+    expect(scoreWithSpeed(1, 60_000, 0)).toBe(1);
+    expect(scoreWithSpeed(0, 0, 20)).toBe(0);
+  });
+});
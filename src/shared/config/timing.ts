@@ -0,0 +1,46 @@
+/**
+ * Timed mode: each question has a countdown (QuizConfig.secondsPerQuestion) and points scale
+ * with how much of it was left. The server times answers from when it served the question.
+ */
+
+/** Share of a question's points still earned by an answer right at the buzzer */
+const MIN_SPEED_SHARE = 0.5;
+
+/** Extra time allowed past the countdown for the answer to reach the server */
+export const ANSWER_GRACE_MS = 2000;
+
+/**
+ * Whether an answer `elapsedMs` after the question was served missed the countdown
+ */
+export function isTimedOut(elapsedMs: number | null, secondsPerQuestion: number): boolean {
+  return (
+    secondsPerQuestion > 0 &&
+    elapsedMs != null &&
+    elapsedMs > secondsPerQuestion * 1000 + ANSWER_GRACE_MS
+  );
+}
+
+/**
+ * Points adjusted for speed: an instant answer keeps every point, one at the buzzer keeps
+ * half. Untimed quizzes keep `points` as-is. In timed quizzes an answer with no recorded serve
+ * time (the question was never marked served) is scored as if at the buzzer, so skipping the
+ * serve call can't keep full points. Rounded to hundredths like the rest of the partial credit.
+ */
+export function scoreWithSpeed(
+  points: number,
+  elapsedMs: number | null,
+  secondsPerQuestion: number
+): number {
+  if (secondsPerQuestion <= 0 || points === 0) return points;
+  const limitMs = secondsPerQuestion * 1000;
+  const remaining = elapsedMs == null ? 0 : Math.min(Math.max(1 - elapsedMs / limitMs, 0), 1);
+  const share = MIN_SPEED_SHARE + (1 - MIN_SPEED_SHARE) * remaining;
+  return Math.round(points * share * 100) / 100;
+}
+
+/**
+ * Seconds for display, e.g. 4.2s
+ */
+export function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
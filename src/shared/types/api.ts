@@ -1,3 +1,8 @@
+import type { SettleFilter } from '../config/listingSource';
+import type { QuizConfig } from '../config/quiz';
+import type { QuestionType } from '../config/questionTypes';
+import type { ScorerName, ScorerWeights } from '../config/scoring';
+
 // Quiz types
 export type QuizComment = {
   id: string;
@@ -7,7 +12,7 @@ export type QuizComment = {
   gifUrl?: string | null;
 };
 
-export type QuizQuestion = {
+export type QuizQuestionBase = {
   postId: string;
   title: string;
   selftext?: string;
@@ -20,14 +25,248 @@ export type QuizQuestion = {
   videoEmbedUrl?: string;
   author: string | null;
   permalink: string;
+  /** 0 (easy) to 1 (hard); missing on quizzes cached before difficulty existed */
+  difficulty?: number;
+  /** Listing the post was drawn from (e.g. top-week, see formatListingSource); missing on older quizzes */
+  listingSource?: string;
+};
+
+/** Pick the top-voted comment; comments are stored top-first (missing type = cached before types) */
+export type TopCommentQuestion = QuizQuestionBase & {
+  type?: Extract<QuestionType, 'top-comment'>;
+  comments: QuizComment[];
+};
+
+/** Guess the upvotes of the single comment in comments */
+export type UpvoteGuessQuestion = QuizQuestionBase & {
+  type: Extract<QuestionType, 'upvote-guess'>;
+  comments: [QuizComment];
+};
+
+/** Put the comments in upvote order; comments are stored top-first with distinct upvotes */
+export type RankCommentsQuestion = QuizQuestionBase & {
+  type: Extract<QuestionType, 'rank-comments'>;
   comments: QuizComment[];
 };
 
+/** Name the subreddit the post is from (no comments; the options are subreddit names) */
+export type WhichSubredditQuestion = QuizQuestionBase & {
+  type: Extract<QuestionType, 'which-subreddit'>;
+  comments: [];
+  /** Where the post is from (the answer) */
+  subreddit: string;
+  /** Subreddit names offered as answers, the right one included */
+  subredditOptions: string[];
+};
+
+/** Pick the post's real title; comments holds just the top comment, shown as a hint */
+export type GuessTitleQuestion = QuizQuestionBase & {
+  type: Extract<QuestionType, 'guess-title'>;
+  comments: [QuizComment];
+  /** The post's own title plus titles of other posts from the same subreddit */
+  titleOptions: string[];
+};
+
+export type QuizQuestion =
+  | TopCommentQuestion
+  | UpvoteGuessQuestion
+  | RankCommentsQuestion
+  | WhichSubredditQuestion
+  | GuessTitleQuestion;
+
+/** Comment option as sent to the client before answering (no upvotes or author to leak the answer) */
+export type PublicQuizComment = Omit<QuizComment, 'ups' | 'author'>;
+
+type WithPublicComments<Q> = Q extends QuizQuestion
+  ? Omit<Q, 'comments' | 'subreddit' | (Q extends GuessTitleQuestion ? 'title' : never)> & {
+      comments: PublicQuizComment[];
+    }
+  : never;
+
+/**
+ * Question as sent to the client: comments are shuffled server-side and stripped of ups/author.
+ * Which-subreddit and guess-title questions also lose the answer and any link that gives it away.
+ */
+export type PublicQuizQuestion = WithPublicComments<QuizQuestion>;
+
 export type QuizResponse = {
-  quiz: QuizQuestion[];
+  quiz: PublicQuizQuestion[];
   isNsfw?: boolean;
   /** Actual subreddit used (may differ from requested when daily rotation falls back) */
   subreddit?: string;
+  /** The user's scored first attempt on this post; when set, this play is practice only */
+  recordedAttempt?: RecordedAttempt | null;
+  /** Quiz config the post was created with */
+  config?: QuizConfig;
+};
+
+export type AnswerRequest = {
+  /** Devvit post the quiz is played on (falls back to the server context) */
+  postId?: string;
+  /** Reddit post ID of the question being answered (QuizQuestion.postId) */
+  questionId: string;
+  /** Top-comment questions: the comment picked */
+  commentId?: string;
+  /** Upvote-guess questions: index into UPVOTE_BUCKETS */
+  guess?: number;
+  /** Rank-comments questions: every comment ID, highest upvoted first */
+  order?: string[];
+  /** Which-subreddit questions: the subreddit picked */
+  subreddit?: string;
+  /** Guess-title questions: the title picked */
+  titleGuess?: string;
+  /** Timed quizzes: the countdown ran out before a pick (send the question's type with it) */
+  timedOut?: boolean;
+  type?: QuestionType;
+};
+
+export type AnswerResponse = {
+  correct: boolean;
+  /**
+   * Points earned (0-1): all or nothing for top-comment, by closeness for upvote guesses,
+   * by correctly ordered pairs for rankings, scaled by speed in timed quizzes
+   */
+  points: number;
+  /** Time from the server serving the question to the first pick, if it was served to this user */
+  elapsedMs: number | null;
+  /** Timed quizzes: no pick arrived before the countdown ran out (scored as wrong) */
+  timedOut: boolean;
+  /**
+   * The comment the user picked first (later picks for the same question are ignored);
+   * for rankings, the comment they put first. Missing for which-subreddit questions.
+   */
+  selectedCommentId?: string;
+  topCommentId?: string;
+  /** Upvote-guess questions: the bucket the user guessed first, and the comment's actual bucket */
+  guessBucket?: number;
+  answerBucket?: number;
+  /** Rank-comments questions: the order the user submitted first, highest upvoted first */
+  rankOrder?: string[];
+  /** Which-subreddit questions: the subreddit the user picked first, and the right one */
+  subredditGuess?: string;
+  subreddit?: string;
+  /** Guess-title questions: the title the user picked first, and the real one */
+  titleGuess?: string;
+  title?: string;
+  /** Full comment data (ups, author) for the revealed question */
+  comments: QuizComment[];
+  /** True when this question had already been answered by the user on this post */
+  alreadyAnswered: boolean;
+  /** True when the user already completed this post: the pick was scored but not recorded */
+  practice: boolean;
+  /**
+   * Recorded picks across all players (practice picks aren't counted), keyed by comment ID
+   * (the comment ranked first for rankings), by bucket index for upvote guesses, by
+   * subreddit for which-subreddit questions, or by title for guess-title questions
+   */
+  pickCounts: Record<string, number>;
+  /** Total recorded picks for this question */
+  totalAnswers: number;
+};
+
+export type QuestionServedRequest = {
+  /** Devvit post the quiz is played on (falls back to the server context) */
+  postId?: string;
+  /** Reddit post ID of the question shown (QuizQuestion.postId) */
+  questionId: string;
+  type?: QuestionType;
+};
+
+export type QuestionServedResponse = {
+  /** Timed quizzes: countdown left, counted from when the question was first served */
+  remainingMs: number | null;
+};
+
+/** One option's upvotes when the quiz was made and on the thread now */
+export type CommentDrift = {
+  id: string;
+  upsAtQuiz: number;
+  /** Null when the comment was deleted or fell out of the thread's top comments */
+  upsNow: number | null;
+};
+
+/** How a question's options have scored since the quiz was made (only after answering) */
+export type AnswerDriftResponse = {
+  questionId: string;
+  comments: CommentDrift[];
+  topAtQuizId: string;
+  /** Option with the most upvotes now (options with no live score count as 0) */
+  topNowId: string;
+  /** Whether the top option has changed since the quiz was made */
+  changed: boolean;
+  /** When the live scores were fetched; they're cached for a few minutes */
+  checkedAt: string; // ISO timestamp
+};
+
+/** A user's first completed (scored) attempt on a post */
+export type RecordedAttempt = {
+  score: number;
+  totalQuestions: number;
+  timeMs: number | null;
+  completedAt: string; // ISO timestamp
+};
+
+export type CompleteQuizRequest = {
+  postId?: string;
+};
+
+export type CompleteQuizResponse = {
+  /** Score computed on the server from the user's recorded first picks */
+  score: number;
+  totalQuestions: number;
+  /** Time from first loading the quiz to completing it, if known */
+  timeMs: number | null;
+  /** False when the user had already completed this post (the result is practice only) */
+  recorded: boolean;
+  /** The scored first attempt on this post (the one just recorded, or the earlier one) */
+  attempt: RecordedAttempt;
+};
+
+export type LeaderboardEntry = {
+  rank: number; // 1-based
+  username: string;
+  score: number;
+  totalQuestions: number;
+  timeMs: number | null;
+};
+
+export type LeaderboardResponse = {
+  postId: string;
+  date: string; // YYYY-MM-DD
+  entries: LeaderboardEntry[];
+  totalPlayers: number;
+  /** The caller's entry, if they have completed this post's quiz */
+  me: LeaderboardEntry | null;
+};
+
+export type SubredditStats = {
+  subreddit: string;
+  gamesPlayed: number;
+  correct: number;
+  totalQuestions: number;
+};
+
+export type PlayerProfile = {
+  gamesPlayed: number;
+  correct: number;
+  totalQuestions: number;
+  /** Consecutive daily posts played on their own day (0 if the streak has lapsed) */
+  currentStreak: number;
+  longestStreak: number;
+  /** Date (YYYY-MM-DD) of the last daily post that counted toward the streak */
+  lastStreakDate: string | null;
+  bestScore: {
+    score: number;
+    totalQuestions: number;
+    subreddit: string;
+    date: string; // YYYY-MM-DD
+  } | null;
+  subreddits: SubredditStats[];
+};
+
+export type MeResponse = {
+  /** Null when the user is logged out */
+  profile: PlayerProfile | null;
 };
 
 export type FetchQuizRequest = {
@@ -38,6 +277,199 @@ export type DailySubredditResponse = {
   subreddit: string;
   date: string; // YYYY-MM-DD
   isHistorical?: boolean; // True if this is from an old post
+  config?: QuizConfig; // Question/option counts for this post
+};
+
+/** One subreddit in the mod-editable daily rotation */
+export type RotationEntry = {
+  name: string;
+  /** Paused entries stay in the list but are skipped by the daily rotation */
+  paused: boolean;
+};
+
+export type RotationResponse = {
+  rotation: RotationEntry[];
+  /** Names actually used by the daily rotation (unpaused, in order) */
+  active: string[];
+};
+
+/** The subreddit scheduled for a date: pinned by a mod, or computed from the rotation */
+export type ScheduledDay = {
+  date: string; // YYYY-MM-DD
+  subreddit: string;
+  pinned: boolean;
+  /** Mod note for a pinned date (e.g. holiday theme) */
+  note?: string;
+};
+
+export type CalendarResponse = {
+  days: ScheduledDay[];
+  /** Every pinned date, past and future */
+  pins: ScheduledDay[];
+};
+
+/** Why a subreddit was skipped by the daily rotation */
+export type SkipReason =
+  | 'not_found'
+  | 'forbidden'
+  | 'banned'
+  | 'private'
+  | 'restricted'
+  | 'insufficient_questions'
+  | 'unknown';
+
+export type SkippedSubreddit = {
+  subreddit: string;
+  reason: SkipReason;
+  /** Error message that caused the skip, if any */
+  error?: string;
+  skippedAt: string; // ISO timestamp
+  /** When the subreddit comes back into rotation (null = never, cooldown disabled) */
+  expiresAt: string | null;
+};
+
+export type SkipListResponse = {
+  entries: SkippedSubreddit[];
+  /** Hours a skipped subreddit stays out of rotation (0 = until removed by hand) */
+  cooldownHours: number;
+};
+
+/** A reported quiz question awaiting mod review */
+export type ReportedQuestion = {
+  postId: string;
+  title: string;
+  subreddit: string | null;
+  reportCount: number;
+  firstReportedAt: string; // ISO timestamp
+  lastReportedAt: string; // ISO timestamp
+};
+
+/** confirm = replace the question, dismiss = reset reports and whitelist, ban = never use the post again */
+export type ReportDecision = 'confirm' | 'dismiss' | 'ban';
+
+export type ReportQueueResponse = {
+  pending: ReportedQuestion[];
+  /** Reports needed before a question enters the queue */
+  threshold: number;
+  replacedPostIds: string[];
+  bannedPostIds: string[];
+};
+
+/**
+ * Why a question was swapped out: a mod confirmed reports on it, banned its post, or its top
+ * comment lost the lead between building the quiz and freezing it into a post
+ */
+export type ReplacementReason = 'reported' | 'banned' | 'leader-changed';
+
+/** Record of a question swapped out of a cached daily quiz */
+export type QuestionReplacement = {
+  originalPostId: string;
+  originalTitle: string;
+  replacementPostId: string;
+  replacementTitle: string;
+  reason: ReplacementReason;
+  replacedAt: string; // ISO timestamp
+};
+
+export type QuizReplacementsResponse = {
+  subreddit: string;
+  date: string;
+  replacements: QuestionReplacement[];
+};
+
+/** The quiz a post was created with, frozen at creation so it never changes or expires */
+export type PostQuizSnapshot = {
+  subreddit: string;
+  date: string; // YYYY-MM-DD
+  config: QuizConfig;
+  quiz: QuizQuestion[];
+  /** Questions swapped out at creation (leader changed) or after (mod-confirmed reports or bans) */
+  replacements: QuestionReplacement[];
+  createdAt: string; // ISO timestamp
+};
+
+/** A day's quiz built and cached ahead of time by the scheduler */
+export type PreparedQuiz = {
+  date: string; // YYYY-MM-DD
+  /** Subreddit the quiz was built from (the post is named after this one) */
+  subreddit: string;
+  /** Subreddit the calendar scheduled; differs from subreddit when we had to fall back */
+  scheduledSubreddit: string;
+  questionCount: number;
+  preparedAt: string; // ISO timestamp
+  /** Subreddits tried before this one, with the error each failed with */
+  failures: { subreddit: string; error: string }[];
+};
+
+/** A comment left out of a question's options, and why */
+export type OptionRejection = {
+  commentId: string;
+  reason: string;
+};
+
+/** One candidate post's quality scores, as returned by the quality debug endpoint */
+export type CandidateBreakdown = {
+  postId: string;
+  title: string;
+  permalink: string;
+  /** Why the post can't be used, or null if it qualifies */
+  rejection: string | null;
+  /** Per-scorer score (0-1); empty when rejected before scoring */
+  scores: Partial<Record<ScorerName, number>>;
+  /** Weighted average of scores (0-1), or null when rejected */
+  total: number | null;
+  /** Upvote-margin difficulty (0-1), for posts that reached scoring */
+  difficulty?: number;
+  /** Whether the post made it into the quiz */
+  selected: boolean;
+  /** Comments skipped as options for giving answers away (see spoilers.ts) */
+  droppedOptions?: OptionRejection[];
+};
+
+export type QualityDebugResponse = {
+  subreddit: string;
+  /** Listing the candidates came from (see formatListingSource) */
+  listingSource: string;
+  /** Minimum post age and comment count candidates had to meet */
+  settleFilter: SettleFilter;
+  weights: ScorerWeights;
+  candidates: CandidateBreakdown[];
+};
+
+export type ScorerWeightsResponse = {
+  subreddit: string;
+  weights: ScorerWeights;
+  /** Whether the subreddit has its own weights (otherwise the defaults apply) */
+  custom: boolean;
+};
+
+export type ListingSourceResponse = {
+  subreddit: string;
+  /** Short form, e.g. hot or top-week (see formatListingSource) */
+  source: string;
+  /** Whether the subreddit has its own source (otherwise the default applies) */
+  custom: boolean;
+};
+
+/** How players have done on one question */
+export type QuestionAccuracy = {
+  questionId: string;
+  title: string;
+  attempts: number;
+  correct: number;
+  /** Share of players who answered correctly (0-1) */
+  accuracy: number;
+  firstAnsweredAt: string; // ISO timestamp
+};
+
+export type QuestionStatsResponse = {
+  subreddit: string;
+  /** Questions first answered within this many days */
+  days: number;
+  /** Questions with fewer recorded answers are left out */
+  minAnswers: number;
+  hardest: QuestionAccuracy[];
+  easiest: QuestionAccuracy[];
 };
 
 // Error types for better error handling